@@ -5,17 +5,28 @@ import { trpcCollectionOptions } from "trpc-db-collection"
 export const usersCollection = createCollection(
   trpcCollectionOptions({
     trpcRouter: trpc.users,
+    readOnly: true,
   })
 )
 
 export const projectCollection = createCollection(
   trpcCollectionOptions({
     trpcRouter: trpc.projects,
+    // The ids are assigned by the database
+    tempIds: true,
+    // The server assigns the id and the creation date
+    toInsertInput: ({ id, createdAt, ...project }) => project,
+    // The listen procedure replays the missed events
+    resumeFromLastEventId: true,
   })
 )
 
 export const todoCollection = createCollection(
   trpcCollectionOptions({
     trpcRouter: trpc.todos,
+    tempIds: true,
+    toInsertInput: ({ id, createdAt, ...todo }) => todo,
+    resumeFromLastEventId: true,
+    references: { projectId: projectCollection.utils },
   })
 )
@@ -1,5 +1,5 @@
 import type { NodePgDatabase } from "drizzle-orm/node-postgres"
-import type { TrpcSyncEvent } from "trpc-db-collection/server"
+import type { TrpcDataEvent } from "trpc-db-collection/server"
 import type { TrpcItem } from "trpc-db-collection"
 import { eventsTable } from "@/db/schema"
 
@@ -7,8 +7,8 @@ export const drizzleEventsAdapter = async <TItem extends TrpcItem>(
   userId: string,
   router: string,
   db: NodePgDatabase,
-  event: Omit<TrpcSyncEvent<TItem>, "id">
-): Promise<TrpcSyncEvent<TItem>> => {
+  event: Omit<TrpcDataEvent<TItem>, "id">
+): Promise<TrpcDataEvent<TItem>> => {
   const savedEvents = await db
     .insert(eventsTable)
     .values({
@@ -1,12 +1,13 @@
 import { router, authedProcedure } from "@/lib/trpc"
 import { z } from "zod"
 import { TRPCError } from "@trpc/server"
-import { eq, and, arrayContains, or } from "drizzle-orm"
+import { eq, and, arrayContains, or, gt } from "drizzle-orm"
 import {
   todosTable,
   createTodoSchema,
   updateTodoSchema,
   projectsTable,
+  eventsTable,
   type Todo,
 } from "@/db/schema"
 import { TrpcSync } from "trpc-db-collection/server"
@@ -220,8 +221,22 @@ export const todosRouter = router({
         userId: opts.ctx.session.user.id,
         signal: opts.signal,
         lastEventId: opts.input?.lastEventId,
-        fetchLastEvents: async () => {
-          return []
+        fetchLastEvents: async (lastEventId) => {
+          const events = await opts.ctx.db
+            .select()
+            .from(eventsTable)
+            .where(
+              and(
+                eq(eventsTable.router, "todos"),
+                eq(eventsTable.userId, opts.ctx.session.user.id),
+                gt(eventsTable.id, lastEventId)
+              )
+            )
+
+          return events.map((event) => ({
+            ...event,
+            data: event.data as Todo,
+          }))
         },
       })
     }),
@@ -69,7 +69,7 @@ function AuthenticatedLayout() {
       const hasProject = projects.length > 0
       if (!hasProject) {
         projectCollection.insert({
-          id: Math.floor(Math.random() * 100000),
+          id: projectCollection.utils.createTempId(),
           name: "Default",
           description: "Default project",
           ownerId: session.user.id,
@@ -88,7 +88,7 @@ function AuthenticatedLayout() {
   const handleCreateProject = () => {
     if (newProjectName.trim() && session) {
       projectCollection.insert({
-        id: Math.floor(Math.random() * 100000),
+        id: projectCollection.utils.createTempId(),
         name: newProjectName.trim(),
         description: "",
         ownerId: session.user.id,
@@ -69,7 +69,7 @@ function ProjectPage() {
   const addTodo = () => {
     if (newTodoText.trim() && session) {
       todoCollection.insert({
-        id: Math.floor(Math.random() * 100000),
+        id: todoCollection.utils.createTempId(),
         text: newTodoText.trim(),
         completed: false,
         projectId: parseInt(projectId),
@@ -0,0 +1,135 @@
+import type { TrpcItem, TrpcItemKey, TrpcKeyOf } from "./items";
+import type { TrpcSyncEvent } from "./events";
+import type { ConnectionState } from "./connection";
+import type {
+  TrpcCollectionInput,
+  TrpcListPage,
+  TrpcListPageInput,
+} from "./pagination";
+import type {
+  RequiredTrpcRouter,
+  TrpcMutationResponse,
+} from "./collection-options";
+
+// The input of the list, with the page requested when paginated
+type TrpcListAdapterInput<TInput extends TrpcCollectionInput> = [
+  TInput,
+] extends [undefined]
+  ? TrpcListPageInput | undefined
+  : TInput | (TInput & TrpcListPageInput);
+
+interface TrpcUpdateInput<TUpdate extends object, TKey extends TrpcItemKey> {
+  id: TKey;
+  data: TUpdate;
+  version?: unknown;
+}
+
+/**
+ * How to call the procedures of a router whose names or shapes differ from
+ * the ones expected by the collection. Every procedure is a function
+ * receiving the router and the expected input, and returning the expected
+ * output. `TItem` is the row of the server, and the inputs of the inserts
+ * and updates are the ones built by `toInsertInput` and `toUpdateInput`,
+ * the whole row by default.
+ */
+export interface TrpcRouterAdapter<
+  TRouter,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TInsert extends object = TItem,
+  TUpdate extends object = Partial<TItem>,
+> {
+  list: (
+    router: TRouter,
+    input: TrpcListAdapterInput<TInput>,
+  ) => Promise<TItem[] | TrpcListPage<TItem>>;
+  create: (
+    router: TRouter,
+    input: TInsert,
+  ) => Promise<TrpcMutationResponse<TItem>>;
+  update: (
+    router: TRouter,
+    input: TrpcUpdateInput<TUpdate, TKey>,
+  ) => Promise<TrpcMutationResponse<TItem>>;
+  delete: (
+    router: TRouter,
+    input: { id: TKey },
+  ) => Promise<TrpcMutationResponse<TItem>>;
+  createMany?: (
+    router: TRouter,
+    input: TInsert[],
+  ) => Promise<TrpcMutationResponse<TItem>[]>;
+  updateMany?: (
+    router: TRouter,
+    input: TrpcUpdateInput<TUpdate, TKey>[],
+  ) => Promise<TrpcMutationResponse<TItem>[]>;
+  deleteMany?: (
+    router: TRouter,
+    input: { id: TKey }[],
+  ) => Promise<TrpcMutationResponse<TItem>[]>;
+  listByKeys?: (
+    router: TRouter,
+    input: ([TInput] extends [undefined] ? unknown : TInput) & {
+      keys: TKey[];
+    },
+  ) => Promise<TItem[]>;
+  listen: (
+    router: TRouter,
+    input: ([TInput] extends [undefined] ? unknown : TInput) & {
+      lastEventId: number | null;
+    },
+    opts: {
+      onData: (data: { id: string; data: TrpcSyncEvent<TItem> }) => void;
+      onStarted?: () => void;
+      onError?: (error: Error) => void;
+      onConnectionState?: (state: ConnectionState) => void;
+    },
+  ) => { unsubscribe: () => void };
+}
+
+// The method called on each procedure of the router
+const procedureMethods = {
+  list: "query",
+  create: "mutate",
+  update: "mutate",
+  delete: "mutate",
+  createMany: "mutate",
+  updateMany: "mutate",
+  deleteMany: "mutate",
+  listByKeys: "query",
+  listen: "subscribe",
+} as const;
+
+/**
+ * Build the router expected by the collection from a router and its
+ * adapter.
+ */
+export function adaptRouter<
+  TRouter,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput,
+  TKey extends TrpcItemKey,
+  TInsert extends object,
+  TUpdate extends object,
+>(
+  router: TRouter,
+  adapter: TrpcRouterAdapter<TRouter, TItem, TInput, TKey, TInsert, TUpdate>,
+): RequiredTrpcRouter<TItem, TInput, TKey, TInsert, TUpdate> {
+  const adapted: Record<string, unknown> = {};
+  for (const [name, method] of Object.entries(procedureMethods)) {
+    const call = adapter[name as keyof typeof procedureMethods] as
+      ((router: TRouter, ...args: unknown[]) => unknown) | undefined;
+    if (!call) continue;
+    adapted[name] = {
+      [method]: (...args: unknown[]) => call(router, ...args),
+    };
+  }
+  return adapted as unknown as RequiredTrpcRouter<
+    TItem,
+    TInput,
+    TKey,
+    TInsert,
+    TUpdate
+  >;
+}
@@ -1,5 +1,16 @@
-import { describe, it, expect, vi } from "vitest";
-import { trpcCollectionOptions } from "./collection-options";
+import { type Mock, describe, it, expect, expectTypeOf, vi } from "vitest";
+import { z } from "zod";
+import {
+  createCollection,
+  MissingInsertHandlerError,
+} from "@tanstack/react-db";
+import {
+  type RequiredTrpcRouter,
+  trpcCollectionOptions,
+} from "./collection-options";
+import { MemoryStorageAdapter } from "./storage";
+import { TrpcMutationError } from "./mutation-errors";
+import type { ConnectionState } from "./connection";
 
 // Mock the required dependencies
 const mockTrpcRouter = {
@@ -30,11 +41,21 @@ const mockTrpcRouter = {
   },
 };
 
+// The error of the tRPC client when the server can't be reached
+function networkError() {
+  const error = new Error("Failed to fetch", {
+    cause: new TypeError("fetch failed"),
+  });
+  error.name = "TRPCClientError";
+  return error;
+}
+
 describe("trpcCollectionOptions", () => {
   it("should handle insert operations", async () => {
     const config = trpcCollectionOptions({
       name: "todos",
       trpcRouter: mockTrpcRouter as any,
+      confirmationTimeout: 100,
     });
 
     // Call the onInsert handler directly
@@ -62,6 +83,7 @@ describe("trpcCollectionOptions", () => {
     const config = trpcCollectionOptions({
       name: "todos",
       trpcRouter: mockTrpcRouter as any,
+      confirmationTimeout: 100,
     });
 
     // Call the onUpdate handler directly
@@ -90,6 +112,7 @@ describe("trpcCollectionOptions", () => {
     const config = trpcCollectionOptions({
       name: "todos",
       trpcRouter: mockTrpcRouter as any,
+      confirmationTimeout: 100,
     });
 
     // Call the onDelete handler directly
@@ -111,3 +134,1842 @@ describe("trpcCollectionOptions", () => {
   });
 });
 
+// Router whose mutations emit their event on the live subscription,
+// so awaitEventId can resolve once sync is started.
+function createSyncedRouter() {
+  let nextEventId = 1;
+  let emit: (event: any) => void = () => {};
+
+  const respond = (action: string, item: any) => {
+    const eventId = nextEventId++;
+    setTimeout(() =>
+      emit({ id: String(eventId), data: { id: eventId, action, data: item } }),
+    );
+    return { item, eventId };
+  };
+
+  return {
+    list: { query: vi.fn(async () => []) },
+    create: { mutate: vi.fn(async (input) => respond("insert", input)) },
+    update: {
+      mutate: vi.fn(async (input) =>
+        respond("update", { id: input.id, ...input.data }),
+      ),
+    },
+    delete: {
+      mutate: vi.fn(async (input) => respond("delete", { id: input.id })),
+    },
+    createMany: {
+      mutate: vi.fn(async (inputs: any[]) =>
+        inputs.map((input) => respond("insert", input)),
+      ),
+    },
+    listen: {
+      subscribe: vi.fn((_, { onData }) => {
+        emit = onData;
+        return { unsubscribe: vi.fn() };
+      }),
+    },
+  };
+}
+
+async function startSync(
+  config: ReturnType<typeof trpcCollectionOptions<any, any, any, any>>,
+) {
+  const markReady = vi.fn();
+  const cleanup = config.sync.sync({
+    begin: vi.fn(),
+    write: vi.fn(),
+    commit: vi.fn(),
+    markReady,
+    truncate: vi.fn(),
+  } as any);
+  await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+  return cleanup as () => void;
+}
+
+describe("trpcCollectionOptions with several mutations", () => {
+  it("should call the single-item procedure for every mutation", async () => {
+    const router = createSyncedRouter();
+    const { createMany: _, ...routerWithoutBulk } = router;
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: routerWithoutBulk as any,
+      storage: false,
+    });
+    await startSync(config);
+
+    const result = await config.onUpdate?.({
+      transaction: {
+        mutations: [
+          { modified: { id: 1 }, changes: { title: "A" } },
+          { modified: { id: 2 }, changes: { title: "B" } },
+        ],
+      },
+    } as any);
+
+    expect(router.update.mutate).toHaveBeenCalledTimes(2);
+    expect(router.update.mutate).toHaveBeenNthCalledWith(1, {
+      id: 1,
+      data: { title: "A" },
+    });
+    expect(router.update.mutate).toHaveBeenNthCalledWith(2, {
+      id: 2,
+      data: { title: "B" },
+    });
+    expect(result).toEqual({
+      results: [
+        { item: { id: 1, title: "A" }, eventId: 1 },
+        { item: { id: 2, title: "B" }, eventId: 2 },
+      ],
+    });
+  });
+
+  it("should use the bulk procedure when available", async () => {
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+    });
+    await startSync(config);
+
+    await config.onInsert?.({
+      transaction: {
+        mutations: [
+          { modified: { id: 1, title: "A" } },
+          { modified: { id: 2, title: "B" } },
+        ],
+      },
+    } as any);
+
+    expect(router.createMany.mutate).toHaveBeenCalledWith([
+      { id: 1, title: "A" },
+      { id: 2, title: "B" },
+    ]);
+    expect(router.create.mutate).not.toHaveBeenCalled();
+  });
+});
+
+describe("trpcCollectionOptions resuming from the last event id", () => {
+  it("should fetch the list when the default storage is missing", async () => {
+    // localStorage is not defined in Node, like during SSR
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+    });
+    await startSync(config);
+
+    await vi.waitFor(() => expect(router.list.query).toHaveBeenCalled());
+    expect(router.listen.subscribe).toHaveBeenCalled();
+  });
+
+  it("should refetch the list by default, the replay being opt-in", async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.set("trpc-db-collection-todos", JSON.stringify([{ id: 1 }]));
+    await storage.set("trpc-db-collection-todos-last-event-id", "7");
+
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+    });
+    await startSync(config);
+
+    expect(router.list.query).toHaveBeenCalled();
+    expect(router.listen.subscribe).toHaveBeenCalledWith(
+      { lastEventId: null },
+      expect.anything(),
+    );
+  });
+
+  it("should subscribe from the saved event id and skip the list fetch", async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.set("trpc-db-collection-todos", JSON.stringify([{ id: 1 }]));
+    await storage.set("trpc-db-collection-todos-last-event-id", "7");
+
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+      resumeFromLastEventId: true,
+    });
+    await startSync(config);
+
+    await vi.waitFor(() =>
+      expect(router.listen.subscribe).toHaveBeenCalledWith(
+        { lastEventId: 7 },
+        expect.anything(),
+      ),
+    );
+    expect(router.list.query).not.toHaveBeenCalled();
+  });
+
+  it("should save the highest applied event id", async () => {
+    const storage = new MemoryStorageAdapter();
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+    });
+    await startSync(config);
+
+    await vi.waitFor(() => expect(router.list.query).toHaveBeenCalled());
+    expect(router.listen.subscribe).toHaveBeenCalledWith(
+      { lastEventId: null },
+      expect.anything(),
+    );
+
+    await config.onInsert?.({
+      transaction: { mutations: [{ modified: { id: 1, title: "A" } }] },
+    } as any);
+
+    await vi.waitFor(async () =>
+      expect(await storage.get("trpc-db-collection-todos-last-event-id")).toBe(
+        "1",
+      ),
+    );
+  });
+});
+
+describe("trpcCollectionOptions with a custom key", () => {
+  interface Member {
+    projectId: number;
+    userId: number;
+    role: string;
+  }
+  const getKey = (member: Member) => `${member.projectId}:${member.userId}`;
+
+  it("should send the key to the update and delete procedures", async () => {
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions<Member, undefined, string>({
+      name: "members",
+      trpcRouter: router as any,
+      storage: false,
+      getKey,
+    });
+    await startSync(config);
+    const member = { projectId: 1, userId: 2, role: "member" };
+
+    expect(config.getKey(member)).toBe("1:2");
+    await config.onUpdate?.({
+      transaction: {
+        mutations: [{ modified: member, changes: { role: "owner" } }],
+      },
+    } as any);
+    expect(router.update.mutate).toHaveBeenCalledWith({
+      id: "1:2",
+      data: { role: "owner" },
+    });
+
+    await config.onDelete?.({
+      transaction: { mutations: [{ modified: member }] },
+    } as any);
+    expect(router.delete.mutate).toHaveBeenCalledWith({ id: "1:2" });
+  });
+
+  it("should persist and invalidate the rows by their key", async () => {
+    const storage = new MemoryStorageAdapter();
+    const router = createSyncedRouter();
+    router.list.query.mockResolvedValue([
+      { projectId: 1, userId: 1, role: "owner" },
+      { projectId: 1, userId: 2, role: "member" },
+    ] as any);
+    const config = trpcCollectionOptions<Member, undefined, string>({
+      name: "members",
+      trpcRouter: router as any,
+      storage,
+      getKey,
+    });
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+    await vi.waitFor(async () =>
+      expect((await storage.keys()).sort()).toEqual([
+        "trpc-db-collection-members:row:1:1",
+        "trpc-db-collection-members:row:1:2",
+      ]),
+    );
+
+    write.mockClear();
+    router.list.query.mockResolvedValue([
+      { projectId: 1, userId: 1, role: "member" },
+    ] as any);
+    router.listen.subscribe.mock.calls[0]![1].onData({
+      id: "1",
+      data: { id: 1, action: "invalidate", keys: ["1:2"] },
+    });
+    await vi.waitFor(() =>
+      expect(write).toHaveBeenCalledWith({
+        type: "delete",
+        value: { projectId: 1, userId: 2, role: "member" },
+      }),
+    );
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("trpcCollectionOptions with a schema", () => {
+  const schema = z.object({ id: z.number(), title: z.string().default("") });
+
+  it("should coerce the incoming rows and quarantine the invalid ones", async () => {
+    const router = createSyncedRouter();
+    router.list.query.mockResolvedValue([{ id: 1 }, { id: "2" }] as any);
+    const onInvalidRow = vi.fn();
+    const config = trpcCollectionOptions<{ id: number; title: string }>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      schema,
+      invalidRows: "quarantine",
+      onInvalidRow,
+    });
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith({
+      type: "insert",
+      value: { id: 1, title: "" },
+    });
+
+    const onData = router.listen.subscribe.mock.calls[0]![1].onData;
+    onData({ id: "1", data: { id: 1, action: "insert", data: { id: 3 } } });
+    onData({ id: "2", data: { id: 2, action: "update", data: { title: 4 } } });
+    expect(write).toHaveBeenLastCalledWith({
+      type: "insert",
+      value: { id: 3, title: "" },
+    });
+    expect(write).toHaveBeenCalledTimes(2);
+
+    expect(onInvalidRow).toHaveBeenCalledTimes(2);
+    expect(config.utils.getQuarantine()).toMatchObject([
+      { source: "list", value: { id: "2" } },
+      { source: "event", value: { title: 4 } },
+    ]);
+  });
+});
+
+describe("trpcCollectionOptions with row transforms", () => {
+  interface Row {
+    id: number;
+    label: string;
+    created_at: string;
+  }
+  interface Todo {
+    id: number;
+    title: string;
+    createdAt: Date;
+  }
+  const fromServer = (row: Row): Todo => ({
+    id: row.id,
+    title: row.label,
+    createdAt: new Date(row.created_at),
+  });
+  const toServer = (todo: Todo): Row => ({
+    id: todo.id,
+    label: todo.title,
+    created_at: todo.createdAt.toISOString(),
+  });
+  const date = "2025-01-01T00:00:00.000Z";
+
+  it("should convert the rows of the server and the mutation inputs", async () => {
+    const storage = new MemoryStorageAdapter();
+    const router = createSyncedRouter();
+    router.list.query.mockResolvedValue([
+      { id: 1, label: "A", created_at: date },
+    ] as any);
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+      fromServer,
+      toServer,
+    });
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+    const todo = { id: 1, title: "A", createdAt: new Date(date) };
+    expect(write).toHaveBeenCalledWith({ type: "insert", value: todo });
+
+    // The cache holds the rows of the server
+    await vi.waitFor(async () =>
+      expect(
+        JSON.parse((await storage.get("trpc-db-collection-todos:row:1"))!),
+      ).toMatchObject({ data: { id: 1, label: "A", created_at: date } }),
+    );
+
+    router.listen.subscribe.mock.calls[0]![1].onData({
+      id: "1",
+      data: {
+        id: 1,
+        action: "insert",
+        data: { id: 2, label: "B", created_at: date },
+      },
+    });
+    expect(write).toHaveBeenLastCalledWith({
+      type: "insert",
+      value: { id: 2, title: "B", createdAt: new Date(date) },
+    });
+
+    await config.onInsert?.({
+      transaction: {
+        mutations: [
+          { modified: { id: 3, title: "C", createdAt: new Date(date) } },
+        ],
+      },
+    } as any);
+    expect(router.create.mutate).toHaveBeenCalledWith({
+      id: 3,
+      label: "C",
+      created_at: date,
+    });
+
+    // Updates send the whole row
+    await config.onUpdate?.({
+      transaction: {
+        mutations: [
+          { modified: { ...todo, title: "A2" }, changes: { title: "A2" } },
+        ],
+      },
+    } as any);
+    expect(router.update.mutate).toHaveBeenCalledWith({
+      id: 1,
+      data: { id: 1, label: "A2", created_at: date },
+    });
+  });
+
+  it("should convert the cached rows on load", async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.set(
+      "trpc-db-collection-todos:row:1",
+      JSON.stringify({
+        version: 1,
+        savedAt: 0,
+        data: { id: 1, label: "A", created_at: date },
+      }),
+    );
+    const router = createSyncedRouter();
+    router.list.query.mockImplementation(() => new Promise(() => {}));
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+      fromServer,
+      toServer,
+    });
+    const write = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady: vi.fn(),
+      truncate: vi.fn(),
+    } as any);
+
+    await vi.waitFor(() =>
+      expect(write).toHaveBeenCalledWith({
+        type: "insert",
+        value: { id: 1, title: "A", createdAt: new Date(date) },
+      }),
+    );
+  });
+});
+
+describe("trpcCollectionOptions insert input", () => {
+  it("should derive the insert payload from the optimistic row", async () => {
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      toInsertInput: ({ title }: { id: number; title: string }) => ({ title }),
+      confirmationTimeout: 100,
+    });
+
+    await config.onInsert?.({
+      transaction: {
+        mutations: [{ modified: { id: -1, title: "New" } }],
+      },
+    } as any);
+    expect(router.create.mutate).toHaveBeenCalledWith({ title: "New" });
+  });
+
+  it("should require the input hooks when the rows don't match the mutation inputs", () => {
+    interface Todo {
+      id: number;
+      title: string;
+      createdAt: string;
+    }
+    const router = createSyncedRouter() as unknown as RequiredTrpcRouter<
+      Todo,
+      undefined,
+      number,
+      { title: string },
+      { title?: string }
+    >;
+
+    const options = { name: "todos", trpcRouter: router };
+    const toInsertInput = ({ title }: Todo) => ({ title });
+
+    // @ts-expect-error The rows hold a createdAt unknown to the mutations
+    trpcCollectionOptions(options);
+    // @ts-expect-error The updates would still send the createdAt
+    trpcCollectionOptions({ ...options, toInsertInput });
+    trpcCollectionOptions({
+      ...options,
+      toInsertInput,
+      toUpdateInput: (_, { title }) => ({ title }),
+    });
+
+    // Rows matching the inputs, but for their id, are sent as they are
+    trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as unknown as RequiredTrpcRouter<Todo>,
+    });
+  });
+});
+
+describe("trpcCollectionOptions read-only", () => {
+  it("should only fetch the list without a listen procedure", async () => {
+    const list = { query: vi.fn(async () => [{ id: 1, name: "Ada" }]) };
+    const config = trpcCollectionOptions({
+      name: "users",
+      trpcRouter: { list },
+      readOnly: true,
+      storage: false,
+    });
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+
+    expect(write).toHaveBeenCalledWith({
+      type: "insert",
+      value: { id: 1, name: "Ada" },
+    });
+    expect(config.utils.getConnectionState()).toBe("offline");
+  });
+
+  it("should throw on local mutations before applying them", () => {
+    const router = createSyncedRouter();
+    const users = createCollection(
+      trpcCollectionOptions<{ id: number }>({
+        name: "users",
+        trpcRouter: router,
+        readOnly: true,
+        storage: false,
+      }),
+    );
+
+    expect(() => users.insert({ id: 1 })).toThrow(MissingInsertHandlerError);
+    expect(users.has(1)).toBe(false);
+  });
+});
+
+describe("trpcCollectionOptions with an adapter", () => {
+  it("should call the procedures of the router through the adapter", async () => {
+    const router = createSyncedRouter();
+    const todos = {
+      getAll: { query: vi.fn(async () => [{ todoId: 1, name: "A" }]) },
+      add: {
+        mutate: vi.fn(async ({ name }: { name: string }) => {
+          const { item, eventId } = await router.create.mutate({
+            id: 2,
+            title: name,
+          });
+          return { todo: { todoId: item.id, name: item.title }, eventId };
+        }),
+      },
+      patch: {
+        mutate: vi.fn(async ({ todoId, name }: any) => {
+          const { item, eventId } = await router.update.mutate({
+            id: todoId,
+            data: { title: name },
+          });
+          return { todo: { todoId: item.id, name: item.title }, eventId };
+        }),
+      },
+      remove: {
+        mutate: vi.fn(async ({ todoId }: { todoId: number }) => {
+          const { eventId } = await router.delete.mutate({ id: todoId });
+          return { eventId };
+        }),
+      },
+      onChange: router.listen,
+    };
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: todos,
+      storage: false,
+      adapter: {
+        list: async (todos) =>
+          (await todos.getAll.query()).map(({ todoId, name }) => ({
+            id: todoId,
+            title: name,
+          })),
+        create: async (todos, { title }) => {
+          const { todo, eventId } = await todos.add.mutate({ name: title });
+          return { item: { id: todo.todoId, title: todo.name }, eventId };
+        },
+        update: async (todos, { id, data }) => {
+          const { todo, eventId } = await todos.patch.mutate({
+            todoId: id,
+            name: data.title,
+          });
+          return { item: { id: todo.todoId, title: todo.name }, eventId };
+        },
+        delete: async (todos, { id }) => {
+          const { eventId } = await todos.remove.mutate({ todoId: id });
+          return { item: { id, title: "" }, eventId };
+        },
+        listen: (todos, input, opts) => todos.onChange.subscribe(input, opts),
+      },
+    });
+    await startSync(config);
+    expect(todos.getAll.query).toHaveBeenCalled();
+
+    await config.onInsert?.({
+      transaction: { mutations: [{ modified: { id: 2, title: "B" } }] },
+    } as any);
+    expect(todos.add.mutate).toHaveBeenCalledWith({ name: "B" });
+
+    await config.onUpdate?.({
+      transaction: {
+        mutations: [{ modified: { id: 1 }, changes: { title: "C" } }],
+      },
+    } as any);
+    expect(todos.patch.mutate).toHaveBeenCalledWith({ todoId: 1, name: "C" });
+
+    await config.onDelete?.({
+      transaction: { mutations: [{ modified: { id: 1, title: "C" } }] },
+    } as any);
+    expect(todos.remove.mutate).toHaveBeenCalledWith({ todoId: 1 });
+  });
+
+  it("should type the adapter with the rows and the inputs of the mutations", async () => {
+    interface TodoRow {
+      id: number;
+      title: string;
+      createdAt: string;
+    }
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router,
+      storage: false,
+      fromServer: (row: TodoRow) => ({
+        ...row,
+        createdAt: new Date(row.createdAt),
+      }),
+      toServer: (todo) => ({
+        ...todo,
+        createdAt: todo.createdAt.toISOString(),
+      }),
+      toInsertInput: ({ title }) => ({ title }),
+      adapter: {
+        list: async (): Promise<TodoRow[]> => [],
+        create: (router, input) => {
+          expectTypeOf(input).toEqualTypeOf<{ title: string }>();
+          return router.create.mutate({ id: 2, ...input });
+        },
+        update: (router, input) => {
+          expectTypeOf(input.data).toEqualTypeOf<Partial<TodoRow>>();
+          return router.update.mutate(input);
+        },
+        delete: (router, input) => router.delete.mutate(input),
+        listen: (router, input, opts) => {
+          expectTypeOf(opts.onConnectionState).toEqualTypeOf<
+            ((state: ConnectionState) => void) | undefined
+          >();
+          return router.listen.subscribe(input, opts);
+        },
+      },
+    });
+    await startSync(config);
+
+    await config.onInsert?.({
+      transaction: {
+        mutations: [
+          { modified: { id: -1, title: "A", createdAt: new Date() } },
+        ],
+      },
+    } as any);
+    expect(router.create.mutate).toHaveBeenCalledWith({ id: 2, title: "A" });
+  });
+});
+
+describe("trpcCollectionOptions reconciling the cache", () => {
+  it("should only write the rows that changed since the cache", async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.set(
+      "trpc-db-collection-todos",
+      JSON.stringify([
+        { id: 1, title: "A" },
+        { id: 2, title: "B" },
+        { id: 3, title: "C" },
+      ]),
+    );
+
+    const router = createSyncedRouter();
+    router.list.query.mockResolvedValue([
+      { id: 1, title: "A" },
+      { id: 2, title: "B2" },
+      { id: 4, title: "D" },
+    ] as any);
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+      resumeFromLastEventId: false,
+    });
+
+    const begin = vi.fn();
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin,
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+
+    // One transaction for the cache, one for the changes
+    expect(begin).toHaveBeenCalledTimes(2);
+    expect(write.mock.calls.slice(3).map(([change]) => change)).toEqual([
+      { type: "update", value: { id: 2, title: "B2" } },
+      { type: "insert", value: { id: 4, title: "D" } },
+      { type: "delete", value: { id: 3, title: "C" } },
+    ]);
+  });
+});
+
+describe("trpcCollectionOptions control events", () => {
+  async function startControlledSync(listByKeys?: { query: Mock }) {
+    const router = { ...createSyncedRouter(), listByKeys };
+    router.list.query.mockResolvedValue([
+      { id: 1, title: "A" },
+      { id: 2, title: "B" },
+      { id: 3, title: "C" },
+    ] as any);
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+    });
+
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+    const emit = router.listen.subscribe.mock.calls[0]![1].onData;
+    write.mockClear();
+
+    router.list.query.mockResolvedValue([
+      { id: 1, title: "A2" },
+      { id: 2, title: "B" },
+      { id: 4, title: "D" },
+    ] as any);
+    return { router, write, emit };
+  }
+
+  it("should refetch and reconcile the list on a reset", async () => {
+    const { router, write, emit } = await startControlledSync();
+
+    emit({ id: "1", data: { id: 1, action: "reset" } });
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(3));
+
+    expect(router.list.query).toHaveBeenCalledTimes(2);
+    expect(write.mock.calls.map(([change]) => change)).toEqual([
+      { type: "update", value: { id: 1, title: "A2" } },
+      { type: "insert", value: { id: 4, title: "D" } },
+      { type: "delete", value: { id: 3, title: "C" } },
+    ]);
+  });
+
+  it("should only refetch the invalidated keys", async () => {
+    const { write, emit } = await startControlledSync();
+
+    emit({ id: "1", data: { id: 1, action: "invalidate", keys: [1, 3] } });
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(2));
+
+    expect(write.mock.calls.map(([change]) => change)).toEqual([
+      { type: "update", value: { id: 1, title: "A2" } },
+      { type: "delete", value: { id: 3, title: "C" } },
+    ]);
+  });
+
+  it("should only fetch the invalidated keys with listByKeys", async () => {
+    const listByKeys = {
+      query: vi.fn(async () => [{ id: 1, title: "A2" }]),
+    };
+    const { router, write, emit } = await startControlledSync(listByKeys);
+
+    emit({ id: "1", data: { id: 1, action: "invalidate", keys: [1, 3] } });
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(2));
+
+    expect(listByKeys.query).toHaveBeenCalledWith({ keys: [1, 3] });
+    expect(router.list.query).toHaveBeenCalledTimes(1);
+    expect(write.mock.calls.map(([change]) => change)).toEqual([
+      { type: "update", value: { id: 1, title: "A2" } },
+      { type: "delete", value: { id: 3, title: "C" } },
+    ]);
+  });
+
+  it("should apply the events received during a reset on the refetched list", async () => {
+    const router = createSyncedRouter();
+    const collection = createCollection(
+      trpcCollectionOptions({
+        name: "todos",
+        trpcRouter: router as any,
+        storage: false,
+      }),
+    );
+    await collection.preload();
+    const emit = router.listen.subscribe.mock.calls[0]![1].onData;
+
+    let resolveList: (items: any[]) => void = () => {};
+    router.list.query.mockImplementation(
+      (() => new Promise((resolve) => (resolveList = resolve))) as any,
+    );
+    emit({ id: "1", data: { id: 1, action: "reset" } });
+    // Received while the list is refetched, which already holds them
+    emit({
+      id: "2",
+      data: { id: 2, action: "insert", data: { id: 1, title: "A" } },
+    });
+    emit({
+      id: "3",
+      data: { id: 3, action: "update", data: { id: 2, title: "B" } },
+    });
+    resolveList([
+      { id: 1, title: "A2" },
+      { id: 2, title: "B2" },
+    ]);
+
+    await vi.waitFor(() =>
+      expect(collection.toArray).toMatchObject([
+        { id: 1, title: "A" },
+        { id: 2, title: "B" },
+      ]),
+    );
+  });
+});
+
+describe("trpcCollectionOptions pagination", () => {
+  function createPaginatedRouter() {
+    const router = createSyncedRouter();
+    let resolveLastPage: () => void = () => {};
+    const lastPage = new Promise<void>((resolve) => {
+      resolveLastPage = resolve;
+    });
+    router.list.query.mockImplementation((async ({ cursor }: any) => {
+      if (cursor === null) return { items: [{ id: 1 }], nextCursor: "a" };
+      await lastPage;
+      return { items: [{ id: 2 }], nextCursor: null };
+    }) as any);
+    return { router, resolveLastPage };
+  }
+
+  function startPaginatedSync(config: any) {
+    const commit = vi.fn();
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit,
+      markReady,
+      truncate: vi.fn(),
+    });
+    return { commit, write, markReady };
+  }
+
+  it("should commit every page and mark ready after the last one", async () => {
+    const { router, resolveLastPage } = createPaginatedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      pagination: { limit: 1 },
+    });
+    const { commit, write, markReady } = startPaginatedSync(config);
+
+    await vi.waitFor(() => expect(commit).toHaveBeenCalledTimes(1));
+    expect(markReady).not.toHaveBeenCalled();
+
+    resolveLastPage();
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+    expect(commit).toHaveBeenCalledTimes(2);
+    expect(write.mock.calls.map(([change]) => change)).toEqual([
+      { type: "insert", value: { id: 1 } },
+      { type: "insert", value: { id: 2 } },
+    ]);
+    expect(router.list.query).toHaveBeenLastCalledWith({
+      cursor: "a",
+      limit: 1,
+    });
+  });
+
+  it("should mark ready after the first page when configured", async () => {
+    const { router, resolveLastPage } = createPaginatedRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      pagination: { limit: 1, markReady: "first-page" },
+    });
+    const { commit, markReady } = startPaginatedSync(config);
+
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+    expect(commit).toHaveBeenCalledTimes(1);
+
+    resolveLastPage();
+    await vi.waitFor(() => expect(commit).toHaveBeenCalledTimes(2));
+    expect(markReady).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("trpcCollectionOptions scoped by an input", () => {
+  it("should forward the input and store the collection separately", async () => {
+    const storage = new MemoryStorageAdapter();
+    const router = createSyncedRouter();
+    router.list.query.mockResolvedValue([{ id: 1, projectId: 2 }] as any);
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage,
+      input: { projectId: 2 },
+    });
+    await startSync(config);
+
+    expect(router.list.query).toHaveBeenCalledWith({ projectId: 2 });
+    expect(router.listen.subscribe).toHaveBeenCalledWith(
+      { projectId: 2, lastEventId: null },
+      expect.anything(),
+    );
+    await vi.waitFor(async () =>
+      expect(await storage.keys()).toEqual([
+        'trpc-db-collection-todos({"projectId":2}):row:1',
+      ]),
+    );
+  });
+});
+
+describe("trpcCollectionOptions conflicts", () => {
+  type VersionedTodo = {
+    id: number;
+    title: string;
+    done: boolean;
+    version: number;
+  };
+  const serverItem = { id: 1, title: "Theirs", done: true, version: 2 };
+  const conflictError = Object.assign(new Error("Conflict"), {
+    data: { code: "CONFLICT", conflict: { item: serverItem } },
+  });
+  const transaction = {
+    mutations: [
+      {
+        modified: { id: 1, title: "Ours", done: false, version: 1 },
+        changes: { title: "Ours" },
+      },
+    ],
+  };
+
+  function createConflictingRouter() {
+    const router = createSyncedRouter();
+    const mutate = router.update.mutate.getMockImplementation()!;
+    router.update.mutate
+      .mockRejectedValueOnce(conflictError)
+      .mockImplementation(mutate);
+    return router;
+  }
+
+  it("should send the version of the updated item", async () => {
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions<VersionedTodo>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      versionField: "version",
+    });
+    await startSync(config);
+
+    await config.onUpdate?.({ transaction } as any);
+    expect(router.update.mutate).toHaveBeenCalledWith({
+      id: 1,
+      data: { title: "Ours" },
+      version: 1,
+    });
+  });
+
+  it("should retry with our changes on top of the server version", async () => {
+    const router = createConflictingRouter();
+    const onConflict = vi.fn(() => "ours" as const);
+    const config = trpcCollectionOptions<VersionedTodo>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      versionField: "version",
+      onConflict,
+    });
+    await startSync(config);
+
+    await config.onUpdate?.({ transaction } as any);
+    expect(onConflict).toHaveBeenCalledWith(
+      transaction.mutations[0]!.modified,
+      serverItem,
+    );
+    expect(router.update.mutate).toHaveBeenLastCalledWith({
+      id: 1,
+      data: { title: "Ours" },
+      version: 2,
+    });
+  });
+
+  it("should retry with the merged changes", async () => {
+    const router = createConflictingRouter();
+    const config = trpcCollectionOptions<VersionedTodo>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      versionField: "version",
+      onConflict: (local, server) => ({
+        merged: { title: `${local.title} & ${server.title}` },
+      }),
+    });
+    await startSync(config);
+
+    await config.onUpdate?.({ transaction } as any);
+    expect(router.update.mutate).toHaveBeenLastCalledWith({
+      id: 1,
+      data: { title: "Ours & Theirs" },
+      version: 2,
+    });
+  });
+
+  it("should keep the server item without retrying", async () => {
+    const router = createConflictingRouter();
+    const config = trpcCollectionOptions<VersionedTodo>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      versionField: "version",
+      onConflict: () => "theirs",
+    });
+    await startSync(config);
+
+    const result = await config.onUpdate?.({ transaction } as any);
+    expect(router.update.mutate).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ results: [{ item: serverItem }] });
+  });
+
+  it("should reject the transaction without a conflict handler", async () => {
+    const router = createConflictingRouter();
+    const config = trpcCollectionOptions<VersionedTodo>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      versionField: "version",
+    });
+    await startSync(config);
+
+    await expect(
+      config.onUpdate?.({ transaction } as any),
+    ).rejects.toMatchObject({ code: "CONFLICT", cause: conflictError });
+  });
+
+  it("should resolve the conflicts of the updates of a transaction one by one", async () => {
+    const router = {
+      ...createConflictingRouter(),
+      updateMany: { mutate: vi.fn() },
+    };
+    const onConflict = vi.fn(() => "ours" as const);
+    const config = trpcCollectionOptions<VersionedTodo>({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      versionField: "version",
+      onConflict,
+    });
+    await startSync(config);
+
+    const mutations = [
+      ...transaction.mutations,
+      {
+        modified: { id: 2, title: "Other", done: false, version: 1 },
+        changes: { title: "Other" },
+      },
+    ];
+    await config.onUpdate?.({ transaction: { mutations } } as any);
+    expect(router.updateMany.mutate).not.toHaveBeenCalled();
+    expect(onConflict).toHaveBeenCalledTimes(1);
+    expect(router.update.mutate).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("trpcCollectionOptions mutation errors", () => {
+  const forbidden = Object.assign(new Error("FORBIDDEN"), {
+    data: { code: "FORBIDDEN", httpStatus: 403 },
+    shape: { message: "FORBIDDEN" },
+  });
+  const transaction = {
+    mutations: [{ modified: { id: 1, title: "A" } }],
+  };
+
+  it("should reject with a typed error and report it", async () => {
+    const router = createSyncedRouter();
+    router.create.mutate.mockRejectedValue(forbidden);
+    const onMutationError = vi.fn();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      onMutationError,
+    });
+    await startSync(config);
+
+    const error = await config
+      .onInsert?.({ transaction } as any)
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(TrpcMutationError);
+    expect(error).toMatchObject({
+      message: "FORBIDDEN",
+      code: "FORBIDDEN",
+      data: forbidden.data,
+      shape: forbidden.shape,
+      cause: forbidden,
+    });
+    expect(onMutationError).toHaveBeenCalledWith({
+      type: "insert",
+      item: { id: 1, title: "A" },
+      error,
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("should retry the codes configured to be retried", async () => {
+    const router = createSyncedRouter();
+    router.create.mutate.mockRejectedValueOnce(
+      Object.assign(new Error("Too many requests"), {
+        data: { code: "TOO_MANY_REQUESTS" },
+      }),
+    );
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      reconnect: { initialDelay: 10, jitter: 0 },
+      mutationErrorBehavior: { TOO_MANY_REQUESTS: "retry" },
+    });
+    await startSync(config);
+
+    await expect(config.onInsert?.({ transaction } as any)).resolves.toEqual({
+      results: [{ item: { id: 1, title: "A" }, eventId: 1 }],
+    });
+    expect(router.create.mutate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep the optimistic state of the codes configured so", async () => {
+    const router = createSyncedRouter();
+    router.create.mutate.mockRejectedValue(forbidden);
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      mutationErrorBehavior: { FORBIDDEN: "keep" },
+    });
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+
+    await expect(config.onInsert?.({ transaction } as any)).resolves.toEqual({
+      results: [],
+    });
+    expect(write).toHaveBeenCalledWith({
+      type: "update",
+      value: { id: 1, title: "A" },
+    });
+  });
+});
+
+describe("trpcCollectionOptions reconnection", () => {
+  it("should resubscribe with backoff from the last applied event", async () => {
+    vi.useFakeTimers();
+    try {
+      const router = createSyncedRouter();
+      const handlers: any[] = [];
+      router.listen.subscribe.mockImplementation((_, opts) => {
+        handlers.push(opts);
+        return { unsubscribe: vi.fn() };
+      });
+
+      const config = trpcCollectionOptions({
+        name: "todos",
+        trpcRouter: router as any,
+        storage: false,
+        resumeFromLastEventId: true,
+        reconnect: { initialDelay: 100, jitter: 0 },
+      });
+      const states: string[] = [];
+      config.utils.subscribeConnectionState((state) => states.push(state));
+      await startSync(config);
+      await vi.advanceTimersByTimeAsync(0);
+
+      handlers[0].onStarted();
+      handlers[0].onData({
+        id: "5",
+        data: { id: 5, action: "insert", data: { id: 1 } },
+      });
+      handlers[0].onError(new Error("Connection lost"));
+      expect(config.utils.getConnectionState()).toBe("reconnecting");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(router.listen.subscribe).toHaveBeenCalledTimes(2);
+      expect(router.listen.subscribe).toHaveBeenLastCalledWith(
+        { lastEventId: 5 },
+        expect.anything(),
+      );
+
+      handlers[1].onStarted();
+      expect(states).toEqual(["connecting", "live", "reconnecting", "live"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should refetch the list when the gap can't be replayed", async () => {
+    vi.useFakeTimers();
+    try {
+      const router = createSyncedRouter();
+      const handlers: any[] = [];
+      router.listen.subscribe.mockImplementation((_, opts) => {
+        handlers.push(opts);
+        return { unsubscribe: vi.fn() };
+      });
+
+      const config = trpcCollectionOptions({
+        name: "todos",
+        trpcRouter: router as any,
+        storage: false,
+        reconnect: { initialDelay: 100, jitter: 0 },
+      });
+      await startSync(config);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(router.list.query).toHaveBeenCalledTimes(1);
+
+      handlers[0].onError(new Error("Connection lost"));
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(router.listen.subscribe).toHaveBeenLastCalledWith(
+        { lastEventId: null },
+        expect.anything(),
+      );
+      expect(router.list.query).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should replay the events missed in a gap", async () => {
+    vi.useFakeTimers();
+    try {
+      const router = createSyncedRouter();
+      const handlers: any[] = [];
+      router.listen.subscribe.mockImplementation((_, opts) => {
+        handlers.push(opts);
+        return { unsubscribe: vi.fn() };
+      });
+
+      const config = trpcCollectionOptions({
+        name: "todos",
+        trpcRouter: router as any,
+        storage: false,
+        resumeFromLastEventId: true,
+        gapTimeout: 50,
+      });
+      await startSync(config);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const event = (id: number, previousId: number | null) => ({
+        id: String(id),
+        data: { id, previousId, action: "insert", data: { id } },
+      });
+      handlers[0].onData(event(1, null));
+      handlers[0].onData(event(3, 2));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(router.listen.subscribe).toHaveBeenLastCalledWith(
+        { lastEventId: 1 },
+        expect.anything(),
+      );
+      expect(router.list.query).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should follow the state of a sync hub reconnecting on its own", async () => {
+    const router = createSyncedRouter();
+    const handlers: any[] = [];
+    router.listen.subscribe.mockImplementation((_, opts) => {
+      handlers.push(opts);
+      return { unsubscribe: vi.fn() };
+    });
+
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+    });
+    const states: string[] = [];
+    config.utils.subscribeConnectionState((state) => states.push(state));
+    await startSync(config);
+    handlers[0].onStarted();
+
+    handlers[0].onConnectionState("reconnecting");
+    expect(config.utils.getConnectionState()).toBe("reconnecting");
+    handlers[0].onStarted();
+
+    // The list is refetched as the hub didn't replay the missed events
+    await vi.waitFor(() => expect(router.list.query).toHaveBeenCalledTimes(2));
+    expect(router.listen.subscribe).toHaveBeenCalledTimes(1);
+    expect(states).toEqual(["connecting", "live", "reconnecting", "live"]);
+  });
+
+  it("should go offline after the maximum number of attempts", async () => {
+    const router = createSyncedRouter();
+    router.listen.subscribe.mockImplementation((_, { onError }) => {
+      onError(new Error("Connection refused"));
+      return { unsubscribe: vi.fn() };
+    });
+
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      reconnect: { maxAttempts: 0 },
+    });
+    await startSync(config);
+
+    await vi.waitFor(() =>
+      expect(config.utils.getConnectionState()).toBe("offline"),
+    );
+  });
+});
+
+describe("trpcCollectionOptions across tabs", () => {
+  it("should relay the events of the leader tab to the other ones", async () => {
+    // The first tab holds the lock, the other ones wait for it
+    let isLocked = false;
+    vi.stubGlobal("navigator", {
+      locks: {
+        request: (_: string, options: any, callback: any) => {
+          if (!isLocked) {
+            isLocked = true;
+            return callback({});
+          }
+          return options.ifAvailable ? callback(null) : new Promise(() => {});
+        },
+      },
+    });
+
+    const tabs = [createSyncedRouter(), createSyncedRouter()].map((router) => {
+      const write = vi.fn();
+      const markReady = vi.fn();
+      const config = trpcCollectionOptions({
+        name: "todos",
+        trpcRouter: router as any,
+        storage: false,
+        crossTab: true,
+      });
+      const cleanup = config.sync.sync({
+        begin: vi.fn(),
+        write,
+        commit: vi.fn(),
+        markReady,
+        truncate: vi.fn(),
+      } as any) as () => void;
+      return { router, write, markReady, cleanup, config };
+    });
+    try {
+      const [leader, follower] = tabs as [(typeof tabs)[0], (typeof tabs)[0]];
+      await vi.waitFor(() => expect(follower.markReady).toHaveBeenCalled());
+      expect(leader.router.listen.subscribe).toHaveBeenCalledTimes(1);
+      expect(follower.router.listen.subscribe).not.toHaveBeenCalled();
+
+      leader.router.listen.subscribe.mock.calls[0]![1].onData({
+        id: "1",
+        data: { id: 1, action: "insert", data: { id: 1, title: "A" } },
+      });
+      await vi.waitFor(() =>
+        expect(follower.write).toHaveBeenCalledWith({
+          type: "insert",
+          value: { id: 1, title: "A" },
+        }),
+      );
+      expect(follower.config.utils.getConnectionState()).toBe("live");
+
+      // The optimistic mutations are shown in the other tabs
+      await follower.config.onUpdate?.({
+        transaction: {
+          mutations: [{ modified: { id: 1, title: "B" }, changes: {} }],
+        },
+      } as any);
+      await vi.waitFor(() =>
+        expect(leader.write).toHaveBeenCalledWith({
+          type: "update",
+          value: { id: 1, title: "B" },
+        }),
+      );
+    } finally {
+      for (const tab of tabs) tab.cleanup();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("trpcCollectionOptions confirmation timeout", () => {
+  // Router whose mutations never emit their event
+  function createSilentRouter() {
+    const router = createSyncedRouter();
+    router.create.mutate.mockImplementation(async (input) => ({
+      item: { ...input, createdAt: "now" },
+      eventId: 1,
+    }));
+    return router;
+  }
+
+  function startRecordedSync(config: any) {
+    const write = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady: vi.fn(),
+      truncate: vi.fn(),
+    });
+    return write;
+  }
+
+  const transaction = {
+    mutations: [{ modified: { id: 2, title: "New Item" } }],
+  };
+
+  it("should write the returned item with the write strategy", async () => {
+    const router = createSilentRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      confirmationTimeout: 10,
+    });
+    const write = startRecordedSync(config);
+
+    await config.onInsert?.({ transaction } as any);
+
+    expect(write).toHaveBeenLastCalledWith({
+      type: "update",
+      value: { id: 2, title: "New Item", createdAt: "now" },
+    });
+  });
+
+  it("should refetch the list with the refetch strategy", async () => {
+    const router = createSilentRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      confirmationTimeout: 10,
+      confirmationStrategy: "refetch",
+    });
+    startRecordedSync(config);
+    await vi.waitFor(() => expect(router.list.query).toHaveBeenCalledTimes(1));
+
+    await config.onInsert?.({ transaction } as any);
+
+    expect(router.list.query).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refetch the list once at a time", async () => {
+    const router = createSilentRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      confirmationTimeout: 10,
+      confirmationStrategy: "refetch",
+    });
+    startRecordedSync(config);
+    await vi.waitFor(() => expect(router.list.query).toHaveBeenCalledTimes(1));
+
+    let fetching = 0;
+    let maxFetching = 0;
+    router.list.query.mockImplementation(async () => {
+      maxFetching = Math.max(maxFetching, ++fetching);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      fetching--;
+      return [];
+    });
+    const other = { mutations: [{ modified: { id: 3, title: "Other" } }] };
+    await Promise.all([
+      config.onInsert?.({ transaction } as any),
+      config.onInsert?.({ transaction: other } as any),
+    ]);
+
+    // The second refetch waits for the first one
+    expect(router.list.query).toHaveBeenCalledTimes(3);
+    expect(maxFetching).toBe(1);
+  });
+
+  it("should reject the transaction with the reject strategy", async () => {
+    const router = createSilentRouter();
+    const config = trpcCollectionOptions({
+      name: "todos",
+      trpcRouter: router as any,
+      storage: false,
+      confirmationTimeout: 10,
+      confirmationStrategy: "reject",
+    });
+    startRecordedSync(config);
+
+    await expect(config.onInsert?.({ transaction } as any)).rejects.toThrow(
+      "Timed out waiting for event ids 1",
+    );
+  });
+});
+
+describe("trpcCollectionOptions outbox", () => {
+  it("should keep mutations failing with a network error and replay them", async () => {
+    const router = createSyncedRouter();
+    router.create.mutate.mockRejectedValueOnce(networkError());
+    const config = trpcCollectionOptions({
+      name: "outbox-todos",
+      trpcRouter: router as any,
+      storage: false,
+      outbox: true,
+    });
+    await startSync(config);
+
+    const result = await config.onInsert?.({
+      transaction: { mutations: [{ modified: { id: 1, title: "A" } }] },
+    } as any);
+
+    expect(result).toEqual({ results: [] });
+    expect(config.utils.isPending(1)).toBe(true);
+    expect(config.utils.getOutbox()).toMatchObject([
+      { type: "insert", item: { id: 1, title: "A" }, attempts: 0 },
+    ]);
+
+    await config.utils.flushOutbox();
+
+    expect(router.create.mutate).toHaveBeenCalledTimes(2);
+    expect(config.utils.getOutbox()).toEqual([]);
+  });
+
+  it("should replay the outbox while the subscription stays live", async () => {
+    const router = createSyncedRouter();
+    router.create.mutate.mockRejectedValueOnce(networkError());
+    const config = trpcCollectionOptions({
+      name: "outbox-todos",
+      trpcRouter: router as any,
+      storage: false,
+      outbox: { retryDelay: 10 },
+    });
+    await startSync(config);
+    router.listen.subscribe.mock.calls[0]![1].onStarted?.();
+    expect(config.utils.getConnectionState()).toBe("live");
+
+    await config.onInsert?.({
+      transaction: { mutations: [{ modified: { id: 1, title: "A" } }] },
+    } as any);
+
+    await vi.waitFor(() => expect(config.utils.getOutbox()).toEqual([]));
+    expect(router.create.mutate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop entries after too many failed replays", async () => {
+    const router = createSyncedRouter();
+    const onFailed = vi.fn();
+    const config = trpcCollectionOptions({
+      name: "outbox-todos",
+      trpcRouter: router as any,
+      storage: false,
+      outbox: { maxAttempts: 1, onFailed },
+    });
+    await startSync(config);
+
+    router.update.mutate.mockRejectedValueOnce(networkError());
+    await config.onUpdate?.({
+      transaction: {
+        mutations: [{ modified: { id: 1 }, changes: { title: "A" } }],
+      },
+    } as any);
+
+    const error = new Error("FORBIDDEN");
+    router.update.mutate.mockRejectedValueOnce(error);
+    await config.utils.flushOutbox();
+
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "update", attempts: 1 }),
+      error,
+    );
+    expect(config.utils.getOutbox()).toEqual([]);
+  });
+
+  it("should drop entries after too many network failures", async () => {
+    const router = createSyncedRouter();
+    router.update.mutate.mockRejectedValue(networkError());
+    const onFailed = vi.fn();
+    const config = trpcCollectionOptions({
+      name: "outbox-todos",
+      trpcRouter: router as any,
+      storage: false,
+      outbox: { maxNetworkAttempts: 2, onFailed },
+    });
+    await startSync(config);
+
+    await config.onUpdate?.({
+      transaction: {
+        mutations: [{ modified: { id: 1 }, changes: { title: "A" } }],
+      },
+    } as any);
+    await config.utils.flushOutbox();
+    expect(onFailed).not.toHaveBeenCalled();
+    await config.utils.flushOutbox();
+
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: 0, networkAttempts: 2 }),
+      expect.any(Error),
+    );
+    expect(config.utils.getOutbox()).toEqual([]);
+  });
+
+  it("should reject the errors of the input hooks", async () => {
+    const router = createSyncedRouter();
+    const config = trpcCollectionOptions({
+      name: "outbox-todos",
+      trpcRouter: router as any,
+      storage: false,
+      outbox: { maxAttempts: 2 },
+      toInsertInput: (item: { id: number; createdAt?: Date }) => ({
+        createdAt: item.createdAt!.toISOString(),
+      }),
+    });
+    await startSync(config);
+
+    await expect(
+      config.onInsert?.({
+        transaction: { mutations: [{ modified: { id: 1 } }] },
+      } as any),
+    ).rejects.toMatchObject({ cause: expect.any(TypeError) });
+    expect(router.create.mutate).not.toHaveBeenCalled();
+    expect(config.utils.getOutbox()).toEqual([]);
+  });
+
+  it("should reject errors that are not network errors", async () => {
+    const router = createSyncedRouter();
+    router.delete.mutate.mockRejectedValueOnce(new Error("NOT_FOUND"));
+    const config = trpcCollectionOptions({
+      name: "outbox-todos",
+      trpcRouter: router as any,
+      storage: false,
+      outbox: true,
+    });
+    await startSync(config);
+
+    await expect(
+      config.onDelete?.({
+        transaction: { mutations: [{ modified: { id: 1 } }] },
+      } as any),
+    ).rejects.toThrow("NOT_FOUND");
+    expect(config.utils.getOutbox()).toEqual([]);
+  });
+});
+
+describe("trpcCollectionOptions temporary ids", () => {
+  // The server assigns the ids of the inserted items
+  const assignIds = (router: ReturnType<typeof createSyncedRouter>) => {
+    let nextId = 42;
+    const create = router.create.mutate.getMockImplementation()!;
+    router.create.mutate.mockImplementation((input) =>
+      create({ ...input, id: nextId++ }),
+    );
+  };
+  // The default temporary ids are numbers, so the keys need to be typed
+  const withNumberIds = (router: ReturnType<typeof createSyncedRouter>) =>
+    router as unknown as RequiredTrpcRouter<{ id: number; title: string }>;
+
+  it("should swap the temporary id in the synced rows and the outbox", async () => {
+    const router = createSyncedRouter();
+    assignIds(router);
+    const config = trpcCollectionOptions({
+      name: "temp-todos",
+      trpcRouter: withNumberIds(router),
+      storage: false,
+      outbox: true,
+      tempIds: true,
+    });
+    const write = vi.fn();
+    const markReady = vi.fn();
+    config.sync.sync({
+      begin: vi.fn(),
+      write,
+      commit: vi.fn(),
+      markReady,
+      truncate: vi.fn(),
+    } as any);
+    await vi.waitFor(() => expect(markReady).toHaveBeenCalled());
+
+    const tempId = config.utils.createTempId();
+    expect(tempId).toBeLessThan(0);
+    router.create.mutate.mockRejectedValueOnce(networkError());
+    await config.onInsert?.({
+      transaction: { mutations: [{ modified: { id: tempId, title: "A" } }] },
+    } as any);
+    await config.onUpdate?.({
+      transaction: {
+        mutations: [
+          { modified: { id: tempId, title: "B" }, changes: { title: "B" } },
+        ],
+      },
+    } as any);
+    expect(write).toHaveBeenLastCalledWith({
+      type: "update",
+      value: { id: tempId, title: "B" },
+    });
+
+    // Replayed once the update is queued behind the insert
+    await vi.waitFor(() => expect(config.utils.getOutbox()).toEqual([]));
+
+    expect(write).toHaveBeenCalledWith({
+      type: "delete",
+      value: { id: tempId, title: "B" },
+    });
+    expect(router.update.mutate).toHaveBeenCalledWith({
+      id: 42,
+      data: { title: "B" },
+    });
+    await expect(config.utils.resolveKey(tempId)).resolves.toBe(42);
+  });
+
+  it("should wait for the ids of the referenced items being inserted", async () => {
+    const projectsRouter = createSyncedRouter();
+    assignIds(projectsRouter);
+    const projects = trpcCollectionOptions({
+      name: "temp-projects",
+      trpcRouter: withNumberIds(projectsRouter),
+      storage: false,
+      tempIds: true,
+    });
+    const todosRouter = createSyncedRouter();
+    const todos = trpcCollectionOptions({
+      name: "temp-todos",
+      trpcRouter: todosRouter as any,
+      storage: false,
+      references: { projectId: projects.utils },
+    });
+    await startSync(projects);
+    await startSync(todos);
+
+    const projectId = projects.utils.createTempId();
+    const remap = vi.fn();
+    projects.utils.subscribeKeyRemap(remap);
+    const insertProject = projects.onInsert?.({
+      transaction: { mutations: [{ modified: { id: projectId } }] },
+    } as any);
+    await todos.onInsert?.({
+      transaction: { mutations: [{ modified: { id: 1, projectId } }] },
+    } as any);
+    await insertProject;
+
+    expect(remap).toHaveBeenCalledWith(projectId, 42);
+    expect(todosRouter.create.mutate).toHaveBeenCalledWith({
+      id: 1,
+      projectId: 42,
+    });
+  });
+
+  it("should stop listening to the referenced collections on cleanup", async () => {
+    const unsubscribe = vi.fn();
+    const projects = {
+      resolveKey: vi.fn(async (key) => key),
+      subscribeKeyRemap: vi.fn(() => unsubscribe),
+    };
+    const config = trpcCollectionOptions({
+      name: "temp-todos",
+      trpcRouter: createSyncedRouter() as any,
+      storage: false,
+      references: { projectId: projects },
+    });
+    expect(projects.subscribeKeyRemap).not.toHaveBeenCalled();
+
+    const cleanup = await startSync(config);
+    expect(projects.subscribeKeyRemap).toHaveBeenCalledTimes(1);
+    cleanup();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it("should require generate for keys other than numbers", () => {
+    const router = createSyncedRouter() as unknown as RequiredTrpcRouter<{
+      id: string;
+      title: string;
+    }>;
+    const options = { name: "temp-todos", trpcRouter: router };
+
+    // @ts-expect-error The default temporary ids are numbers
+    trpcCollectionOptions({ ...options, tempIds: true });
+    const config = trpcCollectionOptions({
+      ...options,
+      storage: false,
+      tempIds: { generate: () => `temp-${crypto.randomUUID()}` },
+    });
+    expect(config.utils.createTempId()).toMatch(/^temp-/);
+  });
+});
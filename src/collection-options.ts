@@ -1,45 +1,142 @@
 import type { CollectionConfig, SyncConfig } from "@tanstack/react-db";
-import type { TrpcItem } from "./items";
-import type { TrpcSyncEvent } from "./events";
+import {
+  type TrpcItem,
+  type TrpcItemKey,
+  type TrpcKeyOf,
+  type TrpcRowTransforms,
+  getItemId,
+  identityTransforms,
+} from "./items";
+import type { TrpcControlEvent, TrpcDataEvent, TrpcSyncEvent } from "./events";
 import { Store } from "@tanstack/store";
 import { type LoggerConfig, Logger } from "./logger";
+import { EventIdTracker } from "./event-tracker";
+import { EventStream } from "./event-stream";
+import { type RowChange, Reconciler } from "./reconcile";
+import {
+  type ConflictResolution,
+  MAX_CONFLICT_RETRIES,
+  getConflictItem,
+} from "./conflicts";
+import {
+  type MutationErrorBehavior,
+  type MutationErrorCode,
+  type MutationErrorContext,
+  MAX_MUTATION_RETRIES,
+  TrpcMutationError,
+} from "./mutation-errors";
+import {
+  type PaginationConfig,
+  type TrpcCollectionInput,
+  type TrpcListByKeysQuery,
+  type TrpcListQuery,
+  defaultPaginationConfig,
+  fetchKeys,
+  fetchPages,
+} from "./pagination";
+import {
+  type OutboxConfig,
+  type OutboxEntry,
+  type PendingMutation,
+  Outbox,
+  defaultOutboxConfig,
+  isNetworkError,
+} from "./outbox";
+import {
+  type ConnectionState,
+  type ReconnectConfig,
+  defaultReconnectConfig,
+  getReconnectDelay,
+} from "./connection";
 import {
   type Serializer,
   jsonSerializer,
-  loadFromLocalStorage,
-  saveToLocalStorage,
-  updateLocalStorageAfterWrite,
-} from "./local-storage";
+  type StorageAdapter,
+  LocalStorageAdapter,
+  getScopedName,
+  loadLastEventId,
+} from "./storage";
+import { CollectionPersistence } from "./persistence";
+import { type TrpcRouterAdapter, adaptRouter } from "./adapter";
+import { type TabMessage, TabCoordinator, isCrossTabSupported } from "./tabs";
+import {
+  type InvalidRowPolicy,
+  type StandardSchemaV1,
+  type TrpcInvalidRow,
+  type TrpcRowSource,
+  RowValidator,
+} from "./schema";
+import {
+  type TempIdConfig,
+  type TrpcKeySource,
+  KeyRemapper,
+  defaultTempIdConfig,
+  replaceKey,
+} from "./temp-ids";
 
-interface TrpcMutationResponse<TItem extends TrpcItem> {
+export interface TrpcMutationResponse<TItem extends TrpcItem> {
   item: TItem;
   eventId: number;
 }
 
-interface RequiredTrpcRouter<TItem extends TrpcItem> {
+export type ConfirmationStrategy = "write" | "refetch" | "reject";
+
+export interface RequiredTrpcRouter<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TInsert extends object = Omit<TItem, "id">,
+  TUpdate extends object = Partial<TItem>,
+> {
   list: {
-    query: () => Promise<TItem[]>;
+    query: TrpcListQuery<TItem, TInput>;
   };
   create: {
-    mutate: (input: Omit<TItem, "id">) => Promise<TrpcMutationResponse<TItem>>;
+    mutate: (input: TInsert) => Promise<TrpcMutationResponse<TItem>>;
   };
   update: {
     mutate: (input: {
-      id: TItem["id"];
-      data: Partial<TItem>;
+      id: TKey;
+      data: TUpdate;
+      version?: unknown;
     }) => Promise<TrpcMutationResponse<TItem>>;
   };
   delete: {
-    mutate: (input: {
-      id: TItem["id"];
-    }) => Promise<TrpcMutationResponse<TItem>>;
+    mutate: (input: { id: TKey }) => Promise<TrpcMutationResponse<TItem>>;
+  };
+  createMany?: {
+    mutate: (input: TInsert[]) => Promise<TrpcMutationResponse<TItem>[]>;
+  };
+  updateMany?: {
+    mutate: (
+      input: {
+        id: TKey;
+        data: TUpdate;
+        version?: unknown;
+      }[],
+    ) => Promise<TrpcMutationResponse<TItem>[]>;
+  };
+  deleteMany?: {
+    mutate: (
+      input: {
+        id: TKey;
+      }[],
+    ) => Promise<TrpcMutationResponse<TItem>[]>;
+  };
+  listByKeys?: {
+    query: TrpcListByKeysQuery<TItem, TInput, TKey>;
   };
   listen: {
     subscribe: (
-      input: { lastEventId: number | null },
+      input: ([TInput] extends [undefined] ? unknown : TInput) & {
+        lastEventId: number | null;
+      },
       opts: {
         onData: (data: { id: string; data: TrpcSyncEvent<TItem> }) => void;
+        onStarted?: () => void;
         onError?: (error: Error) => void;
+        // Called by a `SyncHub` reconnecting the subscription on its own
+        onConnectionState?: (state: ConnectionState) => void;
       },
     ) => {
       unsubscribe: () => void;
@@ -47,21 +144,94 @@ interface RequiredTrpcRouter<TItem extends TrpcItem> {
   };
 }
 
-interface TrpcCollectionConfig<TItem extends TrpcItem>
-  extends Omit<
-    CollectionConfig<TItem>,
-    "onInsert" | "onUpdate" | "onDelete" | "sync" | "getKey"
-  > {
+/**
+ * The procedures required by a read-only collection: the `list` query, and
+ * optionally the `listen` subscription to receive the changes live.
+ */
+export type ReadOnlyTrpcRouter<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+> = Pick<RequiredTrpcRouter<TItem, TInput>, "list"> &
+  Partial<Pick<RequiredTrpcRouter<TItem, TInput>, "listByKeys" | "listen">>;
+
+interface TrpcCollectionConfig<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TRow extends TrpcItem = TItem,
+  TInsert extends object = Omit<TRow, "id">,
+  TUpdate extends object = Partial<TRow>,
+> extends Omit<
+  CollectionConfig<TItem, TKey>,
+  "onInsert" | "onUpdate" | "onDelete" | "sync" | "getKey" | "schema"
+> {
   /**
    * The trpc router to use for syncing data.
    * It needs to have the following methods:
-   * - list: query to get all items
+   * - list: query to get all items, or a page of items with `pagination`
    * - create: mutation to create an item
    * - update: mutation to update an item
    * - delete: mutation to delete an item
    * - listen: subscription to listen for changes
+   *
+   * It can optionally have bulk mutations, used when a transaction
+   * contains several mutations of the same type:
+   * - createMany: mutation to create several items
+   * - updateMany: mutation to update several items
+   * - deleteMany: mutation to delete several items
+   * Without them, the single-item mutations are called one by one.
+   *
+   * It can also have a `listByKeys` query returning the items of the given
+   * keys, to only refetch the items named by an `invalidate` event. Without
+   * it, the whole list is refetched.
+   */
+  trpcRouter: RequiredTrpcRouter<TRow, NoInfer<TInput>, TKey, TInsert, TUpdate>;
+
+  /**
+   * The input of the `create` procedure for an optimistic item, for
+   * example to leave out its client-side id or the fields defaulted by the
+   * server. Required when the rows don't match the input of `create`.
+   * @default (item) => item, converted by `toServer`
+   */
+  toInsertInput?: (item: TItem) => TInsert;
+
+  /**
+   * The `data` of the `update` procedure for an updated item and its
+   * changes. Required when the rows don't match the `data` of `update`.
+   * @default The changes, or the whole item converted by `toServer`
+   */
+  toUpdateInput?: (item: TItem, changes: Partial<TItem>) => TUpdate;
+
+  /**
+   * Convert a row of the server into an item of the collection, like
+   * parsing its dates or renaming its columns. Applied to the rows of the
+   * list, of the events, of the mutation results and of the cache.
+   */
+  fromServer?: (row: TRow) => TItem;
+
+  /**
+   * Convert an item of the collection into a row of the server, for the
+   * inputs of the mutations and the cache. Updates then send the whole row
+   * as their `data`, instead of the changes only.
+   */
+  toServer?: (item: TItem) => TRow;
+
+  /**
+   * The key of an item, like a slug, or a composite key built from several
+   * fields. It is sent as the `id` of the update and delete procedures, and
+   * as the keys of the invalidate events. Required when the items have no
+   * `id`.
+   * @default (item) => item.id
    */
-  trpcRouter: RequiredTrpcRouter<TItem>;
+  getKey?: (item: TItem) => TKey;
+
+  /**
+   * The input scoping the collection, for example `{ projectId }`. It is
+   * forwarded to the `list` query and the `listen` subscription, and the
+   * storage keys are derived from it, so that collections with different
+   * inputs are cached separately.
+   */
+  input?: TInput;
 
   /**
    * The name of the collection.
@@ -80,16 +250,191 @@ interface TrpcCollectionConfig<TItem extends TrpcItem>
   loggerConfig?: LoggerConfig;
 
   /**
-   * The serializer to use for local storage.
+   * The serializer to use for the storage.
    * @default jsonSerializer
    */
   serializer?: Serializer;
 
   /**
-   * Whether to enable local storage sync.
-   * @default true
+   * The storage used to persist the collection, or `false` to disable
+   * persistence.
+   * @default new LocalStorageAdapter()
+   */
+  storage?: StorageAdapter | false;
+
+  /**
+   * The version of the cached rows, to increase when their shape changes.
+   * Rows cached with another version go through `migrate`.
+   * @default 1
+   */
+  cacheVersion?: number;
+
+  /**
+   * Migrate a row cached with a previous `cacheVersion`. The whole cache is
+   * discarded and the list refetched when a row can't be migrated, either
+   * because this returns `null` or throws, or because it is not provided.
+   * @param old The cached row, as sent by the server.
+   * @param fromVersion The version the row was cached with.
+   */
+  migrate?: (old: unknown, fromVersion: number) => TItem | null;
+
+  /**
+   * Whether to resume the subscription from the last applied event id saved
+   * in local storage, instead of refetching the whole list on load.
+   * Only enable it when the `listen` procedure replays the missed events
+   * with `fetchLastEvents`: the changes made while the collection was not
+   * synced are lost otherwise, as the client can't tell.
+   * @default false
+   */
+  resumeFromLastEventId?: boolean;
+
+  /**
+   * Whether to load the list page by page, the `list` query then taking a
+   * `{ cursor, limit }` input and returning `{ items, nextCursor }`.
+   * @default false
+   */
+  pagination?: boolean | Partial<PaginationConfig>;
+
+  /**
+   * Whether a cached row is the same as the one fetched from the server,
+   * in which case it is left untouched when reconciling the cache.
+   * @default isDeepEqual
    */
-  localStorage?: boolean;
+  isEqual?: (cached: TItem, fresh: TItem) => boolean;
+
+  /**
+   * The reconnection strategy used when the subscription fails, or `false`
+   * to stay disconnected.
+   * @default defaultReconnectConfig
+   */
+  reconnect?: Partial<ReconnectConfig> | false;
+
+  /**
+   * The number of event ids received out of order that are tracked above
+   * the contiguous high-water mark.
+   * @default 100
+   */
+  eventWindowSize?: number;
+
+  /**
+   * How long to wait for an event received out of order before replaying
+   * the missed events, or refetching the list when the server can't replay
+   * them, in milliseconds.
+   * @default 1000
+   */
+  gapTimeout?: number;
+
+  /**
+   * How long to wait for the event of a mutation before falling back to
+   * the confirmation strategy, in milliseconds.
+   * @default 10000
+   */
+  confirmationTimeout?: number;
+
+  /**
+   * What to do when the event of a mutation does not arrive in time:
+   * - write: write the item returned by the mutation into the synced state
+   * - refetch: refetch the whole list
+   * - reject: reject the transaction, rolling back the optimistic state
+   * @default "write"
+   */
+  confirmationStrategy?: ConfirmationStrategy;
+
+  /**
+   * Whether to save the mutations that can't reach the server in an outbox
+   * persisted in local storage, and replay them in order once the server
+   * is reachable again, instead of rolling them back.
+   * @default false
+   */
+  outbox?: boolean | Partial<OutboxConfig<TItem>>;
+
+  /**
+   * Let the server assign the ids of the inserted items. The optimistic
+   * items get a temporary id from `utils.createTempId()`, swapped for the
+   * id of the server item once the insert is confirmed: in the synced rows,
+   * in the mutations of the item waiting for the insert and in the outbox.
+   * The ids are held by the `id` of the items. The default ids are negative
+   * numbers, so `generate` is required for keys of another type.
+   * @default false
+   */
+  tempIds?: [TKey] extends [number]
+    ? boolean | Partial<TempIdConfig<TKey>>
+    : false | TempIdConfig<TKey>;
+
+  /**
+   * The fields holding the ids of the items of other collections, with the
+   * `utils` of these collections, to swap their temporary ids as well. The
+   * mutations referencing an item being inserted wait for its id.
+   * @example { projectId: projectsCollection.utils }
+   */
+  references?: Partial<Record<keyof TItem, TrpcKeySource>>;
+
+  /**
+   * The field holding the version of the items, like `version` or
+   * `updatedAt`. When set, updates send the version they are based on, for
+   * the server to reject stale writes with `TrpcSync.assertVersion`.
+   */
+  versionField?: keyof TItem;
+
+  /**
+   * Resolve a conflict when an update is rejected because the item was
+   * modified on the server in the meantime. The update is retried with the
+   * local or merged changes, up to 3 times. Without it, the transaction is
+   * rejected. With it, the updates are sent one by one, without `updateMany`.
+   * @param local The item as modified locally.
+   * @param server The item as currently stored on the server.
+   */
+  onConflict?: (
+    local: TItem,
+    server: TItem,
+  ) => ConflictResolution<TItem> | Promise<ConflictResolution<TItem>>;
+
+  /**
+   * Called when a mutation fails, for every item of the mutation that was
+   * not applied, once the mutation is not retried anymore.
+   * @param context The type of mutation, the item, the error and its code.
+   */
+  onMutationError?: (context: MutationErrorContext<TItem>) => void;
+
+  /**
+   * What to do when a mutation fails, by error code. The mutations failing
+   * with a network error are kept in the outbox when it is enabled.
+   * @default "rollback" for every code
+   */
+  mutationErrorBehavior?: Partial<
+    Record<MutationErrorCode, MutationErrorBehavior>
+  >;
+
+  /**
+   * Whether to share a single live subscription between the tabs of the
+   * browser. One tab is elected leader and relays the events to the other
+   * ones over a `BroadcastChannel`, the next tab taking over when it is
+   * closed. The optimistic mutations made in a tab are also shown in the
+   * other ones. Ignored when the browser lacks `BroadcastChannel` or the
+   * Web Locks API.
+   * @default false
+   */
+  crossTab?: boolean;
+
+  /**
+   * A Standard Schema, like a zod or valibot one, validating and coercing
+   * the incoming rows: the ones of the `list` query, of the cache, of the
+   * insert and update events, and the ones returned by the mutations.
+   * The validation has to be synchronous.
+   */
+  schema?: StandardSchemaV1<unknown, NoInfer<TItem>>;
+
+  /**
+   * What to do with the incoming rows failing the `schema`.
+   * @default "drop"
+   */
+  invalidRows?: InvalidRowPolicy;
+
+  /**
+   * Called for every incoming row failing the `schema`.
+   * @param row The source of the row, its value and the issues.
+   */
+  onInvalidRow?: (row: TrpcInvalidRow) => void;
 
   /**
    * On event callback.
@@ -98,86 +443,861 @@ interface TrpcCollectionConfig<TItem extends TrpcItem>
   onEvent?: (event: TrpcSyncEvent<TItem>) => void;
 }
 
-export function trpcCollectionOptions<TItem extends TrpcItem>(
-  config: TrpcCollectionConfig<TItem>,
-): CollectionConfig<TItem> {
+// Whether the rows can be sent as the input of a mutation: without the
+// fields it doesn't declare, except for their `id`
+type IsSendableAs<TRow, TInput> = [TRow] extends [TInput]
+  ? [Exclude<keyof TRow, keyof TInput | "id">] extends [never]
+    ? true
+    : false
+  : false;
+
+// The hooks building the inputs of the mutations are required when the
+// rows can't be sent as they are
+type TrpcMutationInputHooks<
+  TItem extends TrpcItem,
+  TRow extends TrpcItem,
+  TInsert extends object,
+  TUpdate extends object,
+> = (IsSendableAs<TRow, TInsert> extends true
+  ? unknown
+  : { toInsertInput: (item: TItem) => TInsert }) &
+  (IsSendableAs<Partial<TRow>, TUpdate> extends true
+    ? unknown
+    : { toUpdateInput: (item: TItem, changes: Partial<TItem>) => TUpdate });
+
+interface AdaptedTrpcCollectionConfig<
+  TRouter,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TRow extends TrpcItem = TItem,
+  TInsert extends object = TRow,
+  TUpdate extends object = Partial<TRow>,
+> extends Omit<
+  TrpcCollectionConfig<TItem, TInput, TKey, TRow, TInsert, TUpdate>,
+  "trpcRouter"
+> {
+  /**
+   * The trpc router to use for syncing data, whose procedures are called
+   * through the `adapter`.
+   */
+  trpcRouter: TRouter;
+
+  /**
+   * How to call the procedures of the router when their names, inputs or
+   * outputs differ from the expected ones. Every procedure is a function
+   * receiving the router and the expected input, and returning the
+   * expected output, for example
+   * `update: (router, { id, data }) => router.patch.mutate({ todoId: id, ...data })`.
+   */
+  adapter: TrpcRouterAdapter<
+    TRouter,
+    TRow,
+    NoInfer<TInput>,
+    TKey,
+    TInsert,
+    TUpdate
+  >;
+}
+
+interface ReadOnlyTrpcCollectionConfig<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TRow extends TrpcItem = TItem,
+> extends Omit<TrpcCollectionConfig<TItem, TInput, TKey, TRow>, "trpcRouter"> {
+  /**
+   * Whether the collection is read-only. Its router then only needs the
+   * `list` procedure, and optionally `listen`. The local inserts, updates
+   * and deletes throw before being applied, since the collection has no
+   * mutation handler. Without `listen`, the list is only fetched on load.
+   */
+  readOnly: true;
+
+  /**
+   * The trpc router to use for syncing data.
+   */
+  trpcRouter: ReadOnlyTrpcRouter<TRow, NoInfer<TInput>>;
+}
+
+/**
+ * Send every input of a transaction to the server, using the bulk
+ * procedure when there is more than one input and the router provides it,
+ * and falling back to calling the single-item procedure one by one.
+ * The results are pushed as they arrive, so that the caller knows which
+ * inputs were sent when one of them fails.
+ */
+async function mutateAll<TInput, TItem extends TrpcItem>(
+  inputs: TInput[],
+  single: { mutate: (input: TInput) => Promise<TrpcMutationResponse<TItem>> },
+  bulk?: {
+    mutate: (input: TInput[]) => Promise<TrpcMutationResponse<TItem>[]>;
+  },
+  results: TrpcMutationResponse<TItem>[] = [],
+): Promise<TrpcMutationResponse<TItem>[]> {
+  if (bulk && inputs.length > 1) {
+    results.push(...(await bulk.mutate(inputs)));
+    return results;
+  }
+
+  for (const input of inputs) {
+    results.push(await single.mutate(input));
+  }
+  return results;
+}
+
+function isControlEvent<TItem extends TrpcItem>(
+  event: TrpcSyncEvent<TItem>,
+): event is TrpcControlEvent<TItem> {
+  return event.action === "reset" || event.action === "invalidate";
+}
+
+export interface TrpcCollectionUtils<
+  TItem extends TrpcItem,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+> {
+  [key: string]: (...args: any[]) => any;
+
+  /**
+   * Get the mutations waiting in the outbox to be replayed.
+   */
+  getOutbox: () => OutboxEntry<TItem>[];
+
+  /**
+   * Whether the item has a mutation waiting in the outbox.
+   */
+  isPending: (key: TKey) => boolean;
+
+  /**
+   * Replay the outbox now.
+   */
+  flushOutbox: () => Promise<void>;
+
+  /**
+   * Get the incoming rows that failed the schema, when they are
+   * quarantined.
+   */
+  getQuarantine: () => TrpcInvalidRow[];
+
+  /**
+   * Get the current state of the live subscription.
+   */
+  getConnectionState: () => ConnectionState;
+
+  /**
+   * Listen to the state changes of the live subscription.
+   * @returns A function to stop listening.
+   */
+  subscribeConnectionState: (
+    listener: (state: ConnectionState) => void,
+  ) => () => void;
+
+  /**
+   * Generate a temporary id for an optimistic item, with the `tempIds`
+   * option.
+   */
+  createTempId: () => TKey;
+
+  /**
+   * Get the id assigned by the server to a temporary id, waiting for its
+   * insert when it is being sent. Other ids are returned as they are.
+   */
+  resolveKey: (key: TKey) => Promise<TKey>;
+
+  /**
+   * Listen to the temporary ids swapped for the ones of the server.
+   * @returns A function to stop listening.
+   */
+  subscribeKeyRemap: (
+    listener: (tempKey: TKey, key: TKey) => void,
+  ) => () => void;
+}
+
+type TrpcCollectionOptions<
+  TItem extends TrpcItem,
+  TKey extends TrpcItemKey,
+> = CollectionConfig<TItem, TKey> & {
+  utils: TrpcCollectionUtils<TItem, TKey>;
+};
+
+export function trpcCollectionOptions<
+  TRow extends TrpcItem,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TInsert extends object = Omit<TRow, "id">,
+  TUpdate extends object = Partial<TRow>,
+>(
+  config: TrpcCollectionConfig<TItem, TInput, TKey, TRow, TInsert, TUpdate> &
+    TrpcRowTransforms<TItem, TRow> &
+    TrpcMutationInputHooks<TItem, TRow, TInsert, TUpdate>,
+): TrpcCollectionOptions<TItem, TKey>;
+export function trpcCollectionOptions<
+  TRow extends TrpcItem,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+>(
+  config: ReadOnlyTrpcCollectionConfig<TItem, TInput, TKey, TRow> &
+    TrpcRowTransforms<TItem, TRow>,
+): TrpcCollectionOptions<TItem, TKey>;
+export function trpcCollectionOptions<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TInsert extends object = Omit<TItem, "id">,
+  TUpdate extends object = Partial<TItem>,
+>(
+  config: TrpcCollectionConfig<TItem, TInput, TKey, TItem, TInsert, TUpdate> &
+    TrpcMutationInputHooks<TItem, TItem, TInsert, TUpdate>,
+): TrpcCollectionOptions<TItem, TKey>;
+export function trpcCollectionOptions<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+>(
+  config: ReadOnlyTrpcCollectionConfig<TItem, TInput, TKey>,
+): TrpcCollectionOptions<TItem, TKey>;
+export function trpcCollectionOptions<
+  TRouter,
+  TRow extends TrpcItem,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TInsert extends object = TRow,
+  TUpdate extends object = Partial<TRow>,
+>(
+  config: AdaptedTrpcCollectionConfig<
+    TRouter,
+    TItem,
+    TInput,
+    TKey,
+    TRow,
+    TInsert,
+    TUpdate
+  > &
+    TrpcRowTransforms<TItem, TRow>,
+): TrpcCollectionOptions<TItem, TKey>;
+export function trpcCollectionOptions<
+  TRouter,
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcKeyOf<TItem>,
+  TInsert extends object = TItem,
+  TUpdate extends object = Partial<TItem>,
+>(
+  config: AdaptedTrpcCollectionConfig<
+    TRouter,
+    TItem,
+    TInput,
+    TKey,
+    TItem,
+    TInsert,
+    TUpdate
+  >,
+): TrpcCollectionOptions<TItem, TKey>;
+export function trpcCollectionOptions<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput,
+  TKey extends TrpcItemKey,
+  TRow extends TrpcItem,
+  TInsert extends object,
+  TUpdate extends object,
+>(
+  config:
+    | TrpcCollectionConfig<TItem, TInput, TKey, TRow, TInsert, TUpdate>
+    | ReadOnlyTrpcCollectionConfig<TItem, TInput, TKey, TRow>
+    | AdaptedTrpcCollectionConfig<
+        unknown,
+        TItem,
+        TInput,
+        TKey,
+        TRow,
+        TInsert,
+        TUpdate
+      >,
+): TrpcCollectionOptions<TItem, TKey> {
+  // The mutation procedures are missing from read-only routers, whose
+  // collections have no mutation handler calling them
+  const trpcRouter = (
+    "adapter" in config
+      ? adaptRouter(config.trpcRouter, config.adapter)
+      : config.trpcRouter
+  ) as Omit<
+    RequiredTrpcRouter<TRow, TInput, TKey, TInsert, TUpdate>,
+    "listen"
+  > &
+    Partial<Pick<RequiredTrpcRouter<TRow, TInput, TKey>, "listen">>;
+  const transforms: TrpcRowTransforms<TItem, TRow> = {
+    fromServer: config.fromServer ?? identityTransforms.fromServer,
+    toServer: config.toServer ?? identityTransforms.toServer,
+  };
+  const isReadOnly = "readOnly" in config && config.readOnly;
   const logger = new Logger(config.loggerConfig, config.name);
+  const getKey = config.getKey ?? ((item: TItem) => getItemId(item) as TKey);
   const serializer = config.serializer ?? jsonSerializer;
-  const localStorageSyncEnabled = config.localStorage ?? true;
+  // Collections scoped by different inputs are stored separately
+  const storageName = getScopedName(config.name, config.input);
+  const storage =
+    config.storage === false
+      ? null
+      : (config.storage ?? new LocalStorageAdapter());
+  const resumeFromLastEventId = config.resumeFromLastEventId ?? false;
+
+  const persistence = storage
+    ? new CollectionPersistence<TItem>(
+        storageName,
+        storage,
+        serializer,
+        logger,
+        {
+          version: config.cacheVersion,
+          migrate: config.migrate,
+        },
+        getKey,
+        transforms,
+      )
+    : null;
 
-  const receivedEventIds = new Store<Set<number>>(new Set());
+  const reconnectConfig =
+    config.reconnect === false
+      ? null
+      : { ...defaultReconnectConfig, ...config.reconnect };
 
-  const sync: SyncConfig<TItem>["sync"] = (params) => {
-    const { begin, write, commit, markReady } = params;
+  const paginationConfig = config.pagination
+    ? {
+        ...defaultPaginationConfig,
+        ...(config.pagination === true ? {} : config.pagination),
+      }
+    : null;
 
-    let lastEventId = null;
+  const confirmationTimeout = config.confirmationTimeout ?? 10000;
+  const confirmationStrategy = config.confirmationStrategy ?? "write";
+
+  const receivedEventIds = new EventIdTracker(config.eventWindowSize);
+  // Keys written into the synced state without waiting for their insert
+  // event, which then needs to be applied as an update
+  const writtenKeys = new Set<TrpcItemKey>();
+
+  const outboxConfig = config.outbox
+    ? {
+        ...(defaultOutboxConfig as OutboxConfig<TItem>),
+        ...(config.outbox === true ? {} : config.outbox),
+      }
+    : null;
+  const outbox = outboxConfig
+    ? new Outbox<TItem>(storageName, storage, serializer, getKey, transforms)
+    : null;
+  const connectionState = new Store<ConnectionState>("connecting");
+
+  // Without `generate`, the keys are numbers, the option requiring it
+  // for other keys
+  const tempIdConfig = {
+    ...defaultTempIdConfig,
+    ...(typeof config.tempIds === "object" ? config.tempIds : {}),
+  } as TempIdConfig<TKey>;
+  const keyRemapper = config.tempIds ? new KeyRemapper<TKey>() : null;
+  const references = Object.entries(config.references ?? {}) as [
+    string,
+    TrpcKeySource,
+  ][];
+
+  const validator = config.schema
+    ? new RowValidator<TItem>(config.schema, logger, {
+        policy: config.invalidRows,
+        onInvalidRow: config.onInvalidRow,
+      })
+    : null;
+  // The incoming rows, coerced by the schema and without the invalid ones
+  const validRows = (rows: TItem[], source: TrpcRowSource) =>
+    validator ? validator.validateAll(rows, source) : rows;
+  // The rows of the server converted into items
+  const receiveRows = (rows: TRow[], source: TrpcRowSource) =>
+    validRows(
+      rows.map((row) => transforms.fromServer(row)),
+      source,
+    );
+  const receiveEvent = (event: TrpcSyncEvent<TRow>): TrpcSyncEvent<TItem> =>
+    isControlEvent(event)
+      ? (event as TrpcControlEvent<TItem>)
+      : { ...event, data: transforms.fromServer(event.data) };
+  const receiveResult = (
+    result: TrpcMutationResponse<TRow>,
+  ): TrpcMutationResponse<TItem> => ({
+    ...result,
+    item: transforms.fromServer(result.item),
+  });
+
+  // Set while the sync is running, to write into the synced state from the
+  // mutation handlers
+  let syncControls: {
+    writeResults: (
+      action: TrpcDataEvent<TItem>["action"],
+      results: TrpcMutationResponse<TItem>[],
+    ) => void;
+    writePending: (mutations: PendingMutation<TItem>[]) => void;
+    replaceKey: (
+      fields: string[],
+      tempKey: TrpcItemKey,
+      key: TrpcItemKey,
+    ) => void;
+    refetch: () => Promise<void>;
+    post: (message: TabMessage<TItem>) => void;
+  } | null = null;
+
+  const sync: SyncConfig<TItem, TKey>["sync"] = (params) => {
+    const { begin, commit, markReady } = params;
+
+    // The rows of the synced state, to reconcile them with the list when
+    // catching up with the server
+    const syncedRows = new Map<TrpcItemKey, TItem>();
+    const write = (change: RowChange<TItem>) => {
+      params.write(change);
+      const key = getKey(change.value);
+      if (change.type === "delete") {
+        syncedRows.delete(key);
+      } else if (change.type === "update" && config.rowUpdateMode !== "full") {
+        syncedRows.set(key, { ...syncedRows.get(key), ...change.value });
+      } else {
+        syncedRows.set(key, change.value);
+      }
+    };
+
+    let lastEventId: number | null = null;
 
-    // 1. Set up real-time subscription FIRST (prevents race conditions)
     const eventBuffer: Array<TrpcSyncEvent<TItem>> = [];
     let isInitialSyncComplete = false;
 
+    // The events with an invalid row are only tracked
+    const validEvent = (event: TrpcDataEvent<TItem>) => {
+      if (!validator || event.action === "delete") return event;
+      const data = validator.validate(event.data, "event");
+      return data ? { ...event, data } : null;
+    };
+
+    const applyEvents = (events: TrpcSyncEvent<TItem>[]) => {
+      const dataEvents = events
+        .filter(
+          (event): event is TrpcDataEvent<TItem> => !isControlEvent(event),
+        )
+        .map(validEvent)
+        .filter((event) => event !== null);
+      if (dataEvents.length > 0) {
+        begin();
+        for (const event of dataEvents) {
+          // The item is already in the synced state, written by a mutation
+          // or fetched by a refetch of the list
+          const key = getKey(event.data);
+          const type =
+            event.action === "insert" &&
+            (writtenKeys.has(key) || syncedRows.has(key))
+              ? "update"
+              : event.action;
+          writtenKeys.delete(key);
+          write({ type, value: event.data });
+        }
+        commit();
+      }
+
+      for (const event of dataEvents) {
+        persistence?.write(event.action, event.data);
+      }
+
+      for (const event of events) {
+        receivedEventIds.add(event.id);
+        if (lastEventId === null || event.id > lastEventId) {
+          lastEventId = event.id;
+        }
+        config.onEvent?.(event);
+      }
+
+      persistence?.setLastEventId(lastEventId);
+
+      // The server asks to refetch the list, or only some of its items
+      for (const event of events) {
+        if (event.action === "reset") {
+          logger.info("Reset requested by the server");
+          resync();
+        } else if (event.action === "invalidate") {
+          logger.info("Items invalidated by the server", event.keys);
+          resync(event.keys);
+        }
+      }
+    };
+
     // 2. Initialize connection to your sync engine
-    const subscription = config.trpcRouter.listen.subscribe(
-      { lastEventId },
-      {
-        onData: (event) => {
-          logger.info("Received sync event", event);
-
-          // Handle both array and object formats
-          // This is quite useful as tRPC expects a rigorous SSE format
-          // that is not always correctly proxied by some servers.
-          if (Array.isArray(event)) {
-            event = { id: event[0], data: event[1] };
-          }
+    let subscription: { unsubscribe: () => void } | null = null;
+    let stream: EventStream<TrpcSyncEvent<TItem>> | null = null;
+    let reconnectAttempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let isCatchingUp = false;
+    let isStopped = false;
+    // Only the leader tab subscribes, the other ones receive its events
+    let isLeader = true;
+    // A sync hub holding the subscription is reconnecting it
+    let isHubReconnecting = false;
 
-          const { data } = event;
-          if (!isInitialSyncComplete) {
-            // Buffer events during initial sync to prevent race conditions
-            eventBuffer.push(data);
-            return;
-          }
+    connectionState.setState(() => "connecting");
+
+    const setLive = () => {
+      reconnectAttempt = 0;
+      if (connectionState.state !== "live") {
+        connectionState.setState(() => "live");
+        logger.info("Subscription is live");
+      }
+    };
+
+    const handleEvent = (data: TrpcSyncEvent<TItem>) => {
+      if (!isInitialSyncComplete || isCatchingUp) {
+        // Buffer events during initial sync to prevent race conditions
+        eventBuffer.push(data);
+        return;
+      }
+
+      // Process real-time events
+      applyEvents([data]);
+    };
+
+    // Replay the missed events, or refetch the list when the server can't
+    const onGap = (lastId: number | null) => {
+      logger.error("Missed events after event id", lastId);
+      reconnect();
+    };
+
+    const subscribe = (fromEventId: number | null) => {
+      const { listen } = trpcRouter;
+      // Read-only collections without subscription only fetch the list
+      if (!listen) {
+        connectionState.setState(() => "offline");
+        return;
+      }
+      stream?.stop();
+      const eventStream = new EventStream<TrpcSyncEvent<TItem>>(
+        fromEventId,
+        {
+          onEvent: (event) => {
+            tabs?.post({ type: "event", event });
+            handleEvent(event);
+          },
+          onGap,
+        },
+        config.gapTimeout,
+      );
+      stream = eventStream;
+      subscription = listen.subscribe(
+        { ...config.input, lastEventId: fromEventId } as Parameters<
+          typeof listen.subscribe
+        >[0],
+        {
+          onStarted: () => {
+            setLive();
+            // Catch up once the hub is live again, like after a reconnection
+            if (!isHubReconnecting) return;
+            isHubReconnecting = false;
+            if (!canReplay() && isInitialSyncComplete) resync();
+          },
+          onConnectionState: (state) => {
+            isHubReconnecting = true;
+            connectionState.setState(() => state);
+          },
+          onData: (event) => {
+            logger.info("Received sync event", event);
+            setLive();
+
+            // Handle both array and object formats
+            // This is quite useful as tRPC expects a rigorous SSE format
+            // that is not always correctly proxied by some servers.
+            if (Array.isArray(event)) {
+              event = { id: event[0], data: event[1] };
+            }
+
+            eventStream.push(receiveEvent(event.data));
+          },
+          onError: (error) => {
+            logger.error("Sync error:", error);
+            subscription?.unsubscribe();
+            subscription = null;
+            scheduleReconnect();
+          },
+        },
+      );
+    };
+
+    const scheduleReconnect = () => {
+      if (isStopped || !isLeader) return;
+      if (!reconnectConfig || reconnectAttempt >= reconnectConfig.maxAttempts) {
+        connectionState.setState(() => "offline");
+        logger.error("Subscription is offline");
+        return;
+      }
+
+      const delay = getReconnectDelay(reconnectAttempt, reconnectConfig);
+      reconnectAttempt++;
+      connectionState.setState(() => "reconnecting");
+      logger.info(`Reconnecting in ${delay}ms (attempt ${reconnectAttempt})`);
+
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(reconnect, delay);
+    };
+
+    const reconnect = () => {
+      if (isStopped || !isLeader) return;
+      clearTimeout(reconnectTimer);
+      subscription?.unsubscribe();
+
+      // Resume from the last applied event when the server can replay it,
+      // otherwise refetch the list to catch up with what was missed
+      const isReplaying = canReplay();
+      subscribe(isReplaying ? lastEventId : null);
+      if (!isReplaying && isInitialSyncComplete) {
+        resync();
+      }
+    };
+
+    const canReplay = () => resumeFromLastEventId && lastEventId !== null;
+
+    // Refetch the list, or only the given keys, and reconcile the synced
+    // rows with it. A resync requested while catching up runs afterwards,
+    // the returned promise resolving once it is done.
+    let queuedResync: "all" | Set<TrpcItemKey> | null = null;
+    let queuedResyncDone: {
+      promise: Promise<void>;
+      resolve: () => void;
+    } | null = null;
+    const resync = (keys?: TrpcItemKey[]): Promise<void> => {
+      if (!isCatchingUp) {
+        return catchUp(keys).catch((error) =>
+          logger.error("Resync failed:", error),
+        );
+      }
+      if (!keys || queuedResync === "all") {
+        queuedResync = "all";
+      } else {
+        queuedResync ??= new Set();
+        for (const key of keys) queuedResync.add(key);
+      }
+      if (!queuedResyncDone) {
+        let resolve!: () => void;
+        const promise = new Promise<void>((r) => (resolve = r));
+        queuedResyncDone = { promise, resolve };
+      }
+      return queuedResyncDone.promise;
+    };
+
+    async function catchUp(keys?: TrpcItemKey[]) {
+      logger.info("Catching up with the server", keys ?? "");
+      isCatchingUp = true;
+      try {
+        const scope = keys ? new Set(keys) : null;
+        const inScope = (item: TItem) => !scope || scope.has(getKey(item));
+        const reconciler = new Reconciler(
+          [...syncedRows.values()].filter(inScope),
+          config.isEqual,
+          getKey,
+        );
+        const networkData: TItem[] = [];
+        const changes: RowChange<TItem>[] = [];
+        const { listByKeys } = trpcRouter;
+        const pages =
+          keys && listByKeys
+            ? fetchKeys(listByKeys, keys as TKey[], config.input)
+            : fetchPages(trpcRouter.list, paginationConfig, config.input);
+        for await (const { items, isLastPage } of pages) {
+          const pageItems = receiveRows(items, "list").filter(inScope);
+          networkData.push(...pageItems);
+          const pageChanges = reconciler.diffPage(pageItems);
+          if (isLastPage) pageChanges.push(...reconciler.deletes());
+          if (pageChanges.length === 0) continue;
 
-          // Process real-time events
           begin();
-          write({ type: data.action, value: data.data });
+          for (const change of pageChanges) {
+            write(change);
+          }
           commit();
+          changes.push(...pageChanges);
+        }
 
-          if (localStorageSyncEnabled) {
-            updateLocalStorageAfterWrite(data.action, data.data, {
-              name: config.name,
-              logger,
-              localStorageSyncEnabled,
-              serializer,
-            });
+        if (!scope) {
+          persistence?.replaceAll(networkData);
+        } else {
+          for (const change of changes) {
+            persistence?.write(
+              change.type === "delete" ? "delete" : "insert",
+              change.value,
+            );
           }
+        }
 
-          receivedEventIds.setState((prev) => new Set([...prev, data.id]));
-          lastEventId = data.id;
-          config.onEvent?.(data);
-        },
-        onError: (error) => {
-          logger.error("Sync error:", error);
-        },
-      },
-    );
+        if (outbox && outbox.size > 0) {
+          writePending(outbox.entries);
+        }
+      } catch (error) {
+        logger.error("Catch up failed:", error);
+      } finally {
+        isCatchingUp = false;
+        if (eventBuffer.length > 0) {
+          applyEvents(eventBuffer.splice(0));
+        }
+        const queued = queuedResync;
+        const queuedDone = queuedResyncDone;
+        queuedResync = null;
+        queuedResyncDone = null;
+        if (queued) {
+          resync(queued === "all" ? undefined : [...queued]).then(
+            queuedDone?.resolve,
+          );
+        }
+      }
+    }
+
+    // Reconnect as soon as the browser is back online
+    const onOnline = () => {
+      if (connectionState.state === "live") return;
+      logger.info("Browser is back online");
+      reconnectAttempt = 0;
+      reconnect();
+    };
+    const onOffline = () => {
+      connectionState.setState(() => "offline");
+    };
+    // Write the batched rows before the page is closed
+    const onPageHide = () => {
+      persistence?.flush();
+    };
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", onOnline);
+      window.addEventListener("offline", onOffline);
+      window.addEventListener("pagehide", onPageHide);
+    }
+
+    // Write the mutations of the outbox into the synced state, so they stay
+    // visible until they are replayed
+    const writePending = (mutations: PendingMutation<TItem>[]) => {
+      begin();
+      for (const mutation of mutations) {
+        if (mutation.type === "insert") writtenKeys.add(getKey(mutation.item));
+        write({
+          type: mutation.type === "delete" ? "delete" : "update",
+          value: mutation.item,
+        });
+      }
+      commit();
+    };
+
+    // Swap a temporary id for the one of the server in the synced rows. The
+    // rows keyed by the temporary id are moved, unless the server row is
+    // already there.
+    const replaceSyncedKey = (
+      fields: string[],
+      tempKey: TrpcItemKey,
+      key: TrpcItemKey,
+    ) => {
+      const changes: RowChange<TItem>[] = [];
+      for (const row of syncedRows.values()) {
+        const replaced = replaceKey(row, fields, tempKey, key);
+        if (replaced === row) continue;
+        const rowKey = getKey(row);
+        const replacedKey = getKey(replaced);
+        if (replacedKey !== rowKey) {
+          changes.push({ type: "delete", value: row });
+          writtenKeys.delete(rowKey);
+          if (syncedRows.has(replacedKey)) continue;
+          writtenKeys.add(replacedKey);
+        }
+        changes.push({ type: "update", value: replaced });
+      }
+      if (changes.length === 0) return;
+      begin();
+      for (const change of changes) {
+        write(change);
+      }
+      commit();
+    };
+
+    let isReady = false;
+    const ready = () => {
+      if (isReady) return;
+      isReady = true;
+      markReady();
+    };
+
+    const onTabMessage = (message: TabMessage<TItem>) => {
+      switch (message.type) {
+        case "event":
+          if (!isLeader) handleEvent(message.event);
+          break;
+        case "state":
+          if (!isLeader) connectionState.setState(() => message.state);
+          break;
+        case "hello":
+          if (isLeader) {
+            tabs?.post({ type: "state", state: connectionState.state });
+          }
+          break;
+        case "mutations":
+          // The rows are fetched with the pending ones otherwise
+          if (isInitialSyncComplete) writePending(message.mutations);
+          break;
+        case "rollback":
+          // Restore the server state of the rows
+          resync(message.keys);
+          break;
+        case "remap":
+          replaceSyncedKey(message.fields, message.tempKey, message.key);
+          break;
+      }
+    };
+    const tabs =
+      config.crossTab && isCrossTabSupported()
+        ? new TabCoordinator<TItem>(storageName, {
+            onMessage: onTabMessage,
+            // Take over the subscription of the previous leader
+            onLeader: () => {
+              logger.info("Elected leader tab");
+              isLeader = true;
+              reconnect();
+            },
+          })
+        : null;
+    const unsubscribeTabState = connectionState.subscribe(() => {
+      if (isLeader) tabs?.post({ type: "state", state: connectionState.state });
+    });
 
     // 3. Perform initial data fetch
     async function initialSync() {
       logger.info("Starting initial sync");
       try {
-        // Try to load from local storage first if enabled
-        const cachedData = localStorageSyncEnabled
-          ? loadFromLocalStorage<TItem[]>(config.name, serializer)
+        // Load the cached rows and the last event applied to them, so the
+        // subscription can resume from there instead of refetching everything
+        const cachedRows = persistence ? await persistence.load() : null;
+        const cachedData = cachedRows && validRows(cachedRows, "cache");
+        lastEventId = storage
+          ? await loadLastEventId(storage, storageName)
           : null;
+        await outbox?.ready;
+        isLeader = tabs ? await tabs.elect() : true;
+        if (isStopped) return;
 
-        begin(); // Start a transaction
+        // The other tabs only receive the events from now on, so they can't
+        // resume from the cache
+        const isResuming =
+          isLeader &&
+          !!trpcRouter.listen &&
+          resumeFromLastEventId &&
+          !!cachedData &&
+          lastEventId !== null;
+        if (!isResuming) lastEventId = null;
 
-        if (localStorageSyncEnabled && cachedData && cachedData.length > 0) {
-          logger.info(
-            "Loaded data from local storage",
-            cachedData.length,
-            "items",
-          );
+        // 1. Set up real-time subscription FIRST (prevents race conditions)
+        if (isLeader) {
+          subscribe(isResuming ? lastEventId : null);
+        } else {
+          tabs?.post({ type: "hello" });
+        }
+
+        if (cachedData && cachedData.length > 0) {
+          logger.info("Loaded data from storage", cachedData.length, "items");
+          begin(); // Start a transaction
           for (const item of cachedData) {
             write({
               type: "insert",
@@ -187,169 +1307,601 @@ export function trpcCollectionOptions<TItem extends TrpcItem>(
           commit(); // Commit cached data
         }
 
-        // Then fetch from network and update
-        const networkData = await config.trpcRouter.list.query();
-
-        // Clear existing data if we have network data
-        begin();
-        // Clear existing data by removing all items
-        for (const item of cachedData || []) {
-          write({
-            type: "delete",
-            value: item,
-          });
-        }
-
-        // Add network data
-        for (const item of networkData) {
-          write({
-            type: "insert",
-            value: item,
-          });
-        }
-        commit();
-
-        // Save to local storage if enabled
-        if (localStorageSyncEnabled) {
-          saveToLocalStorage(config.name, networkData, serializer);
-          logger.info(
-            "Saved data to local storage",
-            networkData.length,
-            "items",
+        if (isResuming) {
+          // The subscription replays the events missed since the cache
+          logger.info("Resuming from event id", lastEventId);
+        } else {
+          // Then fetch from network and update, committing every page.
+          // Only write the rows that changed since the cache, so that the
+          // live queries keep the rows that did not
+          const reconciler = new Reconciler(
+            cachedData ?? [],
+            config.isEqual,
+            getKey,
           );
+          const networkData: TItem[] = [];
+          for await (const page of fetchPages(
+            trpcRouter.list,
+            paginationConfig,
+            config.input,
+          )) {
+            const items = receiveRows(page.items, "list");
+            const { isLastPage } = page;
+            networkData.push(...items);
+            begin();
+            for (const change of reconciler.diffPage(items)) {
+              write(change);
+            }
+            // The rows left are only known to be deleted after the last page
+            if (isLastPage) {
+              for (const change of reconciler.deletes()) {
+                write(change);
+              }
+            }
+            commit();
+            if (paginationConfig?.markReady === "first-page") ready();
+          }
+          logger.info("Fetched", networkData.length, "items");
+
+          // Save to the storage if enabled
+          persistence?.replaceAll(networkData);
+          // The saved event id does not describe the fresh data anymore
+          persistence?.setLastEventId(null);
         }
 
         // 4. Process buffered events
         isInitialSyncComplete = true;
         if (eventBuffer.length > 0) {
-          begin();
-          for (const event of eventBuffer) {
-            write({ type: event.action, value: event.data });
-          }
-          commit();
-
-          if (localStorageSyncEnabled) {
-            for (const event of eventBuffer) {
-              updateLocalStorageAfterWrite(event.action, event.data, {
-                name: config.name,
-                logger,
-                serializer,
-                localStorageSyncEnabled,
-              });
-            }
-          }
-
-          for (const event of eventBuffer) {
-            receivedEventIds.setState((prev) => new Set([...prev, event.id]));
-            lastEventId = event.id;
-            config.onEvent?.(event);
-          }
-
+          applyEvents(eventBuffer);
           eventBuffer.splice(0);
         }
 
+        // Show the mutations still waiting in the outbox
+        if (outbox && outbox.size > 0) {
+          writePending(outbox.entries);
+        }
+
         logger.info("Initial sync complete");
       } catch (error) {
         logger.error("Initial sync failed:", error);
         throw error;
       } finally {
         // ALWAYS call markReady, even on error
-        markReady();
+        ready();
       }
     }
 
     initialSync();
 
+    syncControls = {
+      writeResults: (action, results) => {
+        // The deleted items may only hold their key
+        const items = results.map((result) => result.item);
+        const rows = action === "delete" ? items : validRows(items, "mutation");
+        begin();
+        for (const item of rows) {
+          if (action !== "delete") writtenKeys.add(getKey(item));
+          write({
+            type: action === "delete" ? "delete" : "update",
+            value: item,
+          });
+        }
+        commit();
+      },
+      writePending,
+      replaceKey: replaceSyncedKey,
+      refetch: () => resync(),
+      post: (message) => tabs?.post(message),
+    };
+
+    // Swap the temporary ids once the server assigned their ids, until the
+    // sync is cleaned up, the referenced collections outliving this one
+    const unsubscribeKeyRemaps = [
+      keyRemapper?.subscribe((tempKey, key) =>
+        replaceKeys(["id"], tempKey, key),
+      ),
+      ...references.map(([field, source]) =>
+        source.subscribeKeyRemap((tempKey, key) =>
+          replaceKeys([field], tempKey, key),
+        ),
+      ),
+    ];
+
     // 4. Return cleanup function
     return () => {
-      subscription.unsubscribe();
+      syncControls = null;
+      for (const unsubscribe of unsubscribeKeyRemaps) unsubscribe?.();
+      isStopped = true;
+      tabs?.stop();
+      unsubscribeTabState();
+      clearTimeout(reconnectTimer);
+      subscription?.unsubscribe();
+      stream?.stop();
+      if (typeof window !== "undefined") {
+        window.removeEventListener("online", onOnline);
+        window.removeEventListener("offline", onOffline);
+        window.removeEventListener("pagehide", onPageHide);
+      }
+      persistence?.flush();
+      connectionState.setState(() => "offline");
     };
   };
 
   const awaitEventId = (eventId: number): Promise<boolean> => {
     logger.debug("Waiting for event id", eventId);
-    if (receivedEventIds.state.has(eventId)) return Promise.resolve(true);
+    if (receivedEventIds.has(eventId)) return Promise.resolve(true);
 
     return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
       const unsubscribe = receivedEventIds.subscribe(() => {
-        if (receivedEventIds.state.has(eventId)) {
+        if (receivedEventIds.has(eventId)) {
+          clearTimeout(timer);
           unsubscribe();
           resolve(true);
           logger.debug("Received event id", eventId);
         }
       });
+
+      if (Number.isFinite(confirmationTimeout)) {
+        timer = setTimeout(() => {
+          unsubscribe();
+          resolve(false);
+        }, confirmationTimeout);
+      }
     });
   };
 
-  return {
-    ...config,
-    getKey: (item) => item.id,
-    sync: {
-      sync,
-      rowUpdateMode: config.rowUpdateMode ?? "partial",
-    },
-    onInsert: async ({ transaction }) => {
-      const { modified } = transaction.mutations[0];
-      logger.info("Inserting item", modified);
-      const result = await config.trpcRouter.create.mutate({
-        ...modified,
-      });
-      await awaitEventId(result.eventId);
-
-      // Update local storage after insert if enabled
-      if (localStorageSyncEnabled) {
-        updateLocalStorageAfterWrite("insert", result.item, {
-          name: config.name,
-          logger,
-          serializer,
-          localStorageSyncEnabled,
-        });
+  // Wait for the events of the mutation results, falling back to the
+  // confirmation strategy for the ones that did not arrive in time
+  const confirmResults = async (
+    action: TrpcDataEvent<TItem>["action"],
+    results: TrpcMutationResponse<TItem>[],
+  ) => {
+    const confirmed = await Promise.all(
+      results.map((result) =>
+        resolvedResults.has(result) ? true : awaitEventId(result.eventId),
+      ),
+    );
+    const unconfirmed = results.filter((_, index) => !confirmed[index]);
+    if (unconfirmed.length === 0) return;
+
+    const eventIds = unconfirmed.map((result) => result.eventId);
+    logger.error(
+      `Timed out waiting for event ids, using the "${confirmationStrategy}" strategy`,
+      eventIds,
+    );
+
+    switch (confirmationStrategy) {
+      case "write":
+        syncControls?.writeResults(action, unconfirmed);
+        break;
+      case "refetch":
+        await syncControls?.refetch();
+        break;
+      case "reject":
+        throw new Error(
+          `Timed out waiting for event ids ${eventIds.join(", ")} after ${confirmationTimeout}ms`,
+        );
+    }
+  };
+
+  // Results of conflicts resolved with the server item, which have no
+  // event to wait for
+  const resolvedResults = new WeakSet<TrpcMutationResponse<TItem>>();
+
+  // Updates send their changes, or the whole row once converted for the
+  // server, as the changes of an item may not map to the ones of the row.
+  // The overloads require the hooks when the rows don't match the inputs.
+  const toServerData: (item: TItem, changes: Partial<TItem>) => TUpdate =
+    (config as { toUpdateInput?: typeof toServerData }).toUpdateInput ??
+    ((item, changes) =>
+      (config.toServer
+        ? config.toServer({ ...item, ...changes })
+        : changes) as unknown as TUpdate);
+
+  // The whole row is sent by default
+  const toInsertInput: (item: TItem) => TInsert =
+    (config as { toInsertInput?: typeof toInsertInput }).toInsertInput ??
+    ((item) => transforms.toServer(item) as unknown as TInsert);
+
+  const toUpdateInput = ({
+    item,
+    changes,
+  }: Omit<PendingMutation<TItem>, "type">) => ({
+    id: getKey(item),
+    data: toServerData(item, changes ?? {}),
+    ...(config.versionField && { version: item[config.versionField] }),
+  });
+
+  // The procedures of the router, returning the items of the collection
+  const receiving = <TInput>(procedure: {
+    mutate: (input: TInput) => Promise<TrpcMutationResponse<TRow>>;
+  }) => ({
+    mutate: async (input: TInput) =>
+      receiveResult(await procedure.mutate(input)),
+  });
+  const receivingMany = <TInput>(
+    procedure:
+      | {
+          mutate: (input: TInput[]) => Promise<TrpcMutationResponse<TRow>[]>;
+        }
+      | undefined,
+  ) =>
+    procedure && {
+      mutate: async (input: TInput[]) =>
+        (await procedure.mutate(input)).map(receiveResult),
+    };
+
+  // Send an update, resolving the conflicts with `onConflict`
+  const sendUpdate = async (
+    mutation: Omit<PendingMutation<TItem>, "type">,
+  ): Promise<TrpcMutationResponse<TItem>> => {
+    let input = toUpdateInput(mutation);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return receiveResult(await trpcRouter.update.mutate(input));
+      } catch (error) {
+        const serverRow = getConflictItem<TRow>(error);
+        if (!serverRow || !config.onConflict) throw error;
+        const serverItem = transforms.fromServer(serverRow);
+        if (attempt >= MAX_CONFLICT_RETRIES) throw error;
+
+        const resolution = await config.onConflict(mutation.item, serverItem);
+        logger.info("Resolving conflict", getKey(mutation.item), resolution);
+        if (resolution === "theirs") {
+          const result = { item: serverItem, eventId: NaN };
+          resolvedResults.add(result);
+          syncControls?.writeResults("update", [result]);
+          return result;
+        }
+
+        input = {
+          ...input,
+          data:
+            resolution === "ours"
+              ? input.data
+              : toServerData(serverItem, resolution.merged),
+          ...(config.versionField && {
+            version: serverItem[config.versionField],
+          }),
+        };
       }
+    }
+  };
 
-      return { result };
-    },
+  // Swap the temporary ids of the mutations for the ones assigned by the
+  // server, waiting for the inserts being sent
+  const resolveKeys = (
+    type: PendingMutation<TItem>["type"],
+    mutations: Omit<PendingMutation<TItem>, "type">[],
+  ) => {
+    const sources = references.map(
+      ([field, source]): [string, TrpcKeySource["resolveKey"]] => [
+        field,
+        (key) => source.resolveKey(key),
+      ],
+    );
+    // The inserted items are the ones getting an id
+    if (keyRemapper && type !== "insert") {
+      sources.push(["id", (key) => keyRemapper.resolveKey(key as TKey)]);
+    }
+    if (sources.length === 0) return mutations;
 
-    onUpdate: async ({ transaction }) => {
-      const { modified, changes } = transaction.mutations[0];
-      logger.info("Updating item", modified, changes);
-      const result = await config.trpcRouter.update.mutate({
-        id: modified.id,
-        data: changes,
+    return Promise.all(
+      mutations.map(async (mutation) => {
+        let { item, changes } = mutation;
+        for (const [field, resolveKey] of sources) {
+          const tempKey = (item as Record<string, unknown>)[field];
+          if (typeof tempKey !== "string" && typeof tempKey !== "number") {
+            continue;
+          }
+          const key = await resolveKey(tempKey);
+          item = replaceKey(item, [field], tempKey, key);
+          changes = changes && replaceKey(changes, [field], tempKey, key);
+        }
+        return { ...mutation, item, changes };
+      }),
+    );
+  };
+
+  const sendMutations = async (
+    type: PendingMutation<TItem>["type"],
+    pendingMutations: Omit<PendingMutation<TItem>, "type">[],
+    results: TrpcMutationResponse<TItem>[] = [],
+  ) => {
+    const sent = results.length;
+    // Tracked right away, for the mutations made in the meantime to wait
+    const insertedKeys =
+      type === "insert" ? pendingMutations.map(({ item }) => getKey(item)) : [];
+    for (const key of insertedKeys) {
+      keyRemapper?.begin(key);
+    }
+    let mutations = pendingMutations;
+    try {
+      mutations = await resolveKeys(type, pendingMutations);
+      logger.info(`Sending ${type} mutations`, mutations);
+      await sendAndConfirm(type, mutations, results);
+    } finally {
+      // The inserts that failed keep their key
+      insertedKeys.forEach((key, index) => {
+        const result = results[sent + index];
+        keyRemapper?.settle(key, result && getKey(result.item));
       });
-      await awaitEventId(result.eventId);
-
-      // Update local storage after update if enabled
-      if (localStorageSyncEnabled) {
-        updateLocalStorageAfterWrite("update", result.item, {
-          name: config.name,
-          logger,
-          serializer,
-          localStorageSyncEnabled,
+    }
+
+    // Update the storage after the mutations if enabled
+    const items =
+      type === "delete"
+        ? mutations.map(({ item }) => item)
+        : results.map(({ item }) => item);
+    for (const item of items) {
+      persistence?.write(type, item);
+    }
+
+    return results;
+  };
+
+  const sendAndConfirm = async (
+    type: PendingMutation<TItem>["type"],
+    mutations: Omit<PendingMutation<TItem>, "type">[],
+    results: TrpcMutationResponse<TItem>[],
+  ) => {
+    // The conflicts are resolved per item, so the updates are sent one by
+    // one with `onConflict`
+    const updateMany = config.onConflict ? undefined : trpcRouter.updateMany;
+    switch (type) {
+      case "insert":
+        await mutateAll(
+          mutations.map(({ item }) => toInsertInput(item)),
+          receiving(trpcRouter.create),
+          receivingMany(trpcRouter.createMany),
+          results,
+        );
+        break;
+      case "update":
+        await mutateAll(
+          mutations,
+          { mutate: sendUpdate },
+          receivingMany(
+            updateMany && {
+              mutate: (mutations: Omit<PendingMutation<TItem>, "type">[]) =>
+                updateMany.mutate(mutations.map(toUpdateInput)),
+            },
+          ),
+          results,
+        );
+        break;
+      case "delete":
+        await mutateAll(
+          mutations.map(({ item }) => ({ id: getKey(item) })),
+          receiving(trpcRouter.delete),
+          receivingMany(trpcRouter.deleteMany),
+          results,
+        );
+        break;
+    }
+    await confirmResults(type, results);
+  };
+
+  const queueMutations = (mutations: PendingMutation<TItem>[]) => {
+    if (!outbox || mutations.length === 0) return;
+    logger.info("Saving mutations to the outbox", mutations);
+    outbox.push(mutations);
+    syncControls?.writePending(mutations);
+    // Replay them later even when the subscription stays live, as only the
+    // mutation requests failed
+    scheduleOutboxRetry();
+  };
+
+  const handleMutations = async (
+    type: PendingMutation<TItem>["type"],
+    mutations: Omit<PendingMutation<TItem>, "type">[],
+  ) => {
+    // Show the optimistic mutations in the other tabs, until they fail
+    syncControls?.post({
+      type: "mutations",
+      mutations: mutations.map((mutation) => ({ ...mutation, type })),
+    });
+
+    const results: TrpcMutationResponse<TItem>[] = [];
+    for (let attempt = 0; ; attempt++) {
+      const sent = results.length;
+      try {
+        await sendOrQueueMutations(type, mutations.slice(sent), results);
+        return { results };
+      } catch (error) {
+        // The mutations sent before the error are applied
+        const failed = mutations.slice(results.length);
+        const mutationError = new TrpcMutationError<TItem>({
+          type,
+          items: failed.map(({ item }) => item),
+          error,
         });
-      }
+        const { code } = mutationError;
+        const behavior = config.mutationErrorBehavior?.[code] ?? "rollback";
 
-      return { result };
-    },
+        if (
+          behavior === "retry" &&
+          failed.length > 0 &&
+          attempt < MAX_MUTATION_RETRIES
+        ) {
+          const delay = getReconnectDelay(
+            attempt,
+            reconnectConfig ?? defaultReconnectConfig,
+          );
+          logger.error(`Mutation failed with ${code}, retrying in ${delay}ms`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
 
-    onDelete: async ({ transaction }) => {
-      const { modified } = transaction.mutations[0];
-      logger.info("Deleting item", modified);
-      const result = await config.trpcRouter.delete.mutate({
-        id: modified.id,
-      });
-      await awaitEventId(result.eventId);
-
-      // Update local storage after delete if enabled
-      if (localStorageSyncEnabled) {
-        updateLocalStorageAfterWrite("delete", modified, {
-          name: config.name,
-          logger,
-          serializer,
-          localStorageSyncEnabled,
+        for (const { item } of failed) {
+          config.onMutationError?.({ type, item, error: mutationError, code });
+        }
+
+        if (behavior === "keep") {
+          logger.error(`Mutation failed with ${code}, keeping it`, error);
+          syncControls?.writePending(
+            failed.map((mutation) => ({ ...mutation, type })),
+          );
+          return { results };
+        }
+
+        syncControls?.post({
+          type: "rollback",
+          keys: failed.map(({ item }) => getKey(item)),
         });
+        throw mutationError;
+      }
+    }
+  };
+
+  // Send the mutations, keeping them in the outbox when the server can't
+  // be reached. The results are pushed as the mutations are applied.
+  const sendOrQueueMutations = async (
+    type: PendingMutation<TItem>["type"],
+    mutations: Omit<PendingMutation<TItem>, "type">[],
+    results: TrpcMutationResponse<TItem>[],
+  ) => {
+    if (!outbox) {
+      await sendMutations(type, mutations, results);
+      return;
+    }
+
+    const pending = mutations.map((mutation) => ({ ...mutation, type }));
+    // Keep the order of the mutations behind the ones already waiting
+    if (outbox.size > 0) {
+      queueMutations(pending);
+      flushOutbox();
+      return;
+    }
+
+    const sent = results.length;
+    try {
+      await sendMutations(type, mutations, results);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      logger.error("Network error, keeping mutations in the outbox:", error);
+      queueMutations(pending.slice(results.length - sent));
+    }
+  };
+
+  let isFlushingOutbox = false;
+  let outboxRetryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleOutboxRetry = () => {
+    if (!outboxConfig) return;
+    clearTimeout(outboxRetryTimer);
+    outboxRetryTimer = setTimeout(flushOutbox, outboxConfig.retryDelay);
+  };
+
+  // Replay the outbox in order, stopping at the first entry that fails
+  const flushOutbox = async () => {
+    if (!outbox || !outboxConfig || isFlushingOutbox) return;
+    isFlushingOutbox = true;
+    clearTimeout(outboxRetryTimer);
+
+    try {
+      while (outbox.size > 0) {
+        const entry = outbox.entries[0]!;
+        try {
+          await sendMutations(entry.type, [entry]);
+          outbox.shift();
+        } catch (error) {
+          if (isNetworkError(error)) entry.networkAttempts++;
+          else entry.attempts++;
+
+          if (
+            entry.attempts >= outboxConfig.maxAttempts ||
+            entry.networkAttempts >= outboxConfig.maxNetworkAttempts
+          ) {
+            logger.error("Dropping outbox entry after failed replays:", error);
+            outbox.shift();
+            outboxConfig.onFailed?.(entry, error);
+            // Restore the server state of the pending row
+            await syncControls?.refetch();
+            continue;
+          }
+
+          logger.error("Outbox replay failed:", error);
+          outbox.save();
+          scheduleOutboxRetry();
+          break;
+        }
       }
+    } finally {
+      isFlushingOutbox = false;
+    }
+  };
 
-      return { result };
+  // Swap the temporary ids in the rows and the outbox once the server
+  // assigned their ids
+  const replaceKeys = (
+    fields: string[],
+    tempKey: TrpcItemKey,
+    key: TrpcItemKey,
+  ) => {
+    logger.info(`Replacing temporary id ${tempKey} with ${key}`, fields);
+    outbox?.replaceKey(fields, tempKey, key);
+    syncControls?.replaceKey(fields, tempKey, key);
+    syncControls?.post({ type: "remap", fields, tempKey, key });
+  };
+  // Replay the outbox as soon as the subscription is live again
+  connectionState.subscribe(() => {
+    if (connectionState.state === "live" && outbox && outbox.size > 0) {
+      flushOutbox();
+    }
+  });
+
+  const mutationHandlers: Pick<
+    CollectionConfig<TItem, TKey>,
+    "onInsert" | "onUpdate" | "onDelete"
+  > = {
+    onInsert: async ({ transaction }) =>
+      handleMutations(
+        "insert",
+        transaction.mutations.map(({ modified }) => ({ item: modified })),
+      ),
+
+    onUpdate: async ({ transaction }) =>
+      handleMutations(
+        "update",
+        transaction.mutations.map(({ modified, changes }) => ({
+          item: modified,
+          changes,
+        })),
+      ),
+
+    onDelete: async ({ transaction }) =>
+      handleMutations(
+        "delete",
+        transaction.mutations.map(({ modified }) => ({ item: modified })),
+      ),
+  };
+
+  return {
+    ...config,
+    getKey,
+    // Only the incoming rows are validated, not the local mutations
+    schema: undefined,
+    utils: {
+      getOutbox: () => outbox?.entries ?? [],
+      getQuarantine: () => validator?.quarantine ?? [],
+      isPending: (key) => outbox?.has(key) ?? false,
+      flushOutbox,
+      getConnectionState: () => connectionState.state,
+      subscribeConnectionState: (listener) =>
+        connectionState.subscribe(() => listener(connectionState.state)),
+      createTempId: () => tempIdConfig.generate(),
+      resolveKey: (key) => keyRemapper?.resolveKey(key) ?? Promise.resolve(key),
+      subscribeKeyRemap: (listener) =>
+        keyRemapper?.subscribe(listener) ?? (() => {}),
+    },
+    sync: {
+      sync,
+      rowUpdateMode: config.rowUpdateMode ?? "partial",
     },
+    // Without handlers, the collection throws on local mutations before
+    // applying them
+    ...(isReadOnly ? {} : mutationHandlers),
   };
 }
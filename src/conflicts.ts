@@ -0,0 +1,29 @@
+import type { TrpcItem } from "./items";
+
+/**
+ * How to resolve a conflict between a local update and the server item:
+ * - theirs: drop the local update and keep the server item
+ * - ours: send the local changes again on top of the server item
+ * - merged: send the given changes on top of the server item
+ */
+export type ConflictResolution<TItem extends TrpcItem> =
+  "theirs" | "ours" | { merged: Partial<TItem> };
+
+// The number of times an update is retried after resolving a conflict
+export const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * Get the current server item of a conflict from the error of a mutation,
+ * sent by `formatConflictError` in the `errorFormatter` of the server.
+ * @returns The server item, or `null` when the error is not a conflict.
+ */
+export function getConflictItem<TItem extends TrpcItem>(
+  error: unknown,
+): TItem | null {
+  if (typeof error !== "object" || error === null) return null;
+  const data = (
+    error as { data?: { code?: string; conflict?: { item?: TItem } } }
+  ).data;
+  if (data?.code !== "CONFLICT") return null;
+  return data.conflict?.item ?? null;
+}
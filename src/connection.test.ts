@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { defaultReconnectConfig, getReconnectDelay } from "./connection";
+
+describe("getReconnectDelay", () => {
+  const config = { ...defaultReconnectConfig, jitter: 0 };
+
+  it("should grow the delay exponentially", () => {
+    expect(getReconnectDelay(0, config)).toBe(1000);
+    expect(getReconnectDelay(1, config)).toBe(2000);
+    expect(getReconnectDelay(2, config)).toBe(4000);
+  });
+
+  it("should cap the delay at maxDelay", () => {
+    expect(getReconnectDelay(10, config)).toBe(30000);
+  });
+
+  it("should randomize the delay with jitter", () => {
+    const jitterConfig = { ...defaultReconnectConfig, jitter: 0.5 };
+    expect(getReconnectDelay(1, jitterConfig, () => 0)).toBe(2000);
+    expect(getReconnectDelay(1, jitterConfig, () => 1)).toBe(1000);
+    expect(getReconnectDelay(1, jitterConfig, () => 0.5)).toBe(1500);
+  });
+});
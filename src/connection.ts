@@ -0,0 +1,56 @@
+export type ConnectionState =
+  "connecting" | "live" | "reconnecting" | "offline";
+
+export interface ReconnectConfig {
+  /**
+   * The delay before the first reconnection attempt, in milliseconds.
+   * @default 1000
+   */
+  initialDelay: number;
+
+  /**
+   * The maximum delay between two reconnection attempts, in milliseconds.
+   * @default 30000
+   */
+  maxDelay: number;
+
+  /**
+   * The factor applied to the delay after each failed attempt.
+   * @default 2
+   */
+  multiplier: number;
+
+  /**
+   * The share of the delay that is randomized, between 0 and 1, so that
+   * clients do not all reconnect at the same time.
+   * @default 0.5
+   */
+  jitter: number;
+
+  /**
+   * The number of attempts before giving up and going offline.
+   * @default Infinity
+   */
+  maxAttempts: number;
+}
+
+export const defaultReconnectConfig: ReconnectConfig = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: Infinity,
+};
+
+// Exponential backoff with jitter, capped at maxDelay
+export function getReconnectDelay(
+  attempt: number,
+  config: ReconnectConfig,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(
+    config.initialDelay * Math.pow(config.multiplier, attempt),
+    config.maxDelay,
+  );
+  return Math.round(delay - delay * config.jitter * random());
+}
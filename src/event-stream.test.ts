@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventStream } from "./event-stream";
+
+function createStream(fromEventId: number | null = null) {
+  const delivered: number[] = [];
+  const onGap = vi.fn();
+  const stream = new EventStream(
+    fromEventId,
+    { onEvent: (event) => delivered.push(event.id), onGap },
+    100,
+  );
+  return { stream, delivered, onGap };
+}
+
+describe("EventStream", () => {
+  it("should deliver chained events in order", () => {
+    const { stream, delivered } = createStream();
+
+    stream.push({ id: 1, previousId: null });
+    stream.push({ id: 3, previousId: 1 });
+    stream.push({ id: 2, previousId: 3 });
+
+    expect(delivered).toEqual([1, 3, 2]);
+  });
+
+  it("should hold events received out of order until the missing one", () => {
+    vi.useFakeTimers();
+    try {
+      const { stream, delivered, onGap } = createStream(4);
+
+      stream.push({ id: 6, previousId: 5 });
+      stream.push({ id: 7, previousId: 6 });
+      expect(delivered).toEqual([]);
+
+      stream.push({ id: 5, previousId: 4 });
+      expect(delivered).toEqual([5, 6, 7]);
+
+      vi.advanceTimersByTime(100);
+      expect(onGap).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should report a gap when the missing event does not arrive", () => {
+    vi.useFakeTimers();
+    try {
+      const { stream, delivered, onGap } = createStream();
+
+      stream.push({ id: 1, previousId: null });
+      stream.push({ id: 3, previousId: 2 });
+      vi.advanceTimersByTime(100);
+
+      expect(delivered).toEqual([1]);
+      expect(onGap).toHaveBeenCalledWith(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should deliver events without previous id right away", () => {
+    const { stream, delivered } = createStream(4);
+
+    stream.push({ id: 8 });
+    stream.push({ id: 2 });
+
+    expect(delivered).toEqual([8, 2]);
+  });
+});
@@ -0,0 +1,87 @@
+interface ChainedEvent {
+  id: number;
+  previousId?: number | null;
+}
+
+/**
+ * Delivers the events of a subscription in the order the server sent them,
+ * using the id of the previous event sent with each one.
+ *
+ * An event whose previous event was not received is held back for a short
+ * time, in case the missing event was only delivered out of order. If it
+ * does not arrive in time, the held events are dropped and `onGap` is
+ * called to replay or refetch what was missed.
+ */
+export class EventStream<TEvent extends ChainedEvent> {
+  private lastId: number | null;
+  // Held events, by the id of the event they follow
+  private held = new Map<number, TEvent>();
+  private gapTimer: ReturnType<typeof setTimeout> | undefined;
+  private onEvent: (event: TEvent) => void;
+  private onGap: (lastId: number | null) => void;
+  private gapTimeout: number;
+
+  constructor(
+    fromEventId: number | null,
+    handlers: {
+      onEvent: (event: TEvent) => void;
+      onGap: (lastId: number | null) => void;
+    },
+    gapTimeout = 1000,
+  ) {
+    this.lastId = fromEventId;
+    this.onEvent = handlers.onEvent;
+    this.onGap = handlers.onGap;
+    this.gapTimeout = gapTimeout;
+  }
+
+  push(event: TEvent) {
+    // Servers not chaining their events can't be checked
+    const previousId = event.previousId ?? null;
+    if (previousId === null || this.lastId === null) {
+      this.deliver(event);
+      return;
+    }
+
+    if (previousId !== this.lastId) {
+      this.held.set(previousId, event);
+      this.gapTimer ??= setTimeout(() => this.resolveGap(), this.gapTimeout);
+      return;
+    }
+
+    this.deliver(event);
+  }
+
+  private deliver(event: TEvent) {
+    this.lastId = event.id;
+    this.onEvent(event);
+
+    // Deliver the held events following this one
+    let next = this.held.get(this.lastId);
+    while (next) {
+      this.held.delete(this.lastId);
+      this.lastId = next.id;
+      this.onEvent(next);
+      next = this.held.get(this.lastId);
+    }
+
+    if (this.held.size === 0) this.clearGapTimer();
+  }
+
+  private resolveGap() {
+    this.gapTimer = undefined;
+    if (this.held.size === 0) return;
+    this.held.clear();
+    this.onGap(this.lastId);
+  }
+
+  private clearGapTimer() {
+    clearTimeout(this.gapTimer);
+    this.gapTimer = undefined;
+  }
+
+  stop() {
+    this.clearGapTimer();
+    this.held.clear();
+  }
+}
@@ -0,0 +1,66 @@
+import { bench, describe } from "vitest";
+import { EventIdTracker } from "./event-tracker";
+
+const EVENTS = 100_000;
+// The heap may grow with the garbage of the benchmark itself, but not with
+// the number of events received
+const MAX_HEAP_GROWTH = 20 * 1024 * 1024;
+
+// Collected first when the garbage collector is exposed (--expose-gc)
+function getHeapUsed() {
+  (globalThis as { gc?: () => void }).gc?.();
+  return process.memoryUsage().heapUsed;
+}
+
+describe(`tracking ${EVENTS} event ids`, () => {
+  bench("EventIdTracker", () => {
+    const tracker = new EventIdTracker();
+    for (let eventId = 1; eventId <= EVENTS; eventId++) {
+      tracker.add(eventId);
+    }
+  });
+
+  // A long-lived tracker receiving 100k more events on every run: the
+  // window stays bounded, so neither the time nor the memory grows. The
+  // heap is measured from the first run and reported once done.
+  const longLivedTracker = new EventIdTracker();
+  let nextEventId = 1;
+  let heapBefore: number | null = null;
+  let maxHeapGrowth = 0;
+  bench(
+    "EventIdTracker, long-lived",
+    () => {
+      heapBefore ??= getHeapUsed();
+      for (let count = 0; count < EVENTS; count++) {
+        longLivedTracker.add(nextEventId++);
+      }
+      if (longLivedTracker.size > 100) {
+        throw new Error(`Window grew to ${longLivedTracker.size} ids`);
+      }
+      const heapGrowth = getHeapUsed() - heapBefore;
+      maxHeapGrowth = Math.max(maxHeapGrowth, heapGrowth);
+      if (heapGrowth > MAX_HEAP_GROWTH) {
+        throw new Error(
+          `Heap grew by ${heapGrowth} bytes after ${nextEventId - 1} events`,
+        );
+      }
+    },
+    {
+      teardown: () => {
+        console.info(
+          `Long-lived tracker: ${nextEventId - 1} events, heap grew by at most`,
+          `${(maxHeapGrowth / 1024 / 1024).toFixed(2)} MB`,
+        );
+      },
+    },
+  );
+
+  // The previous implementation, copying the Set on every event.
+  // Run on a hundredth of the events as it is quadratic.
+  bench(`Set copied on every event (${EVENTS / 100} events)`, () => {
+    let receivedEventIds = new Set<number>();
+    for (let eventId = 1; eventId <= EVENTS / 100; eventId++) {
+      receivedEventIds = new Set([...receivedEventIds, eventId]);
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventIdTracker } from "./event-tracker";
+
+describe("EventIdTracker", () => {
+  it("should track received event ids", () => {
+    const tracker = new EventIdTracker();
+    tracker.add(3);
+    tracker.add(7);
+
+    expect(tracker.has(3)).toBe(true);
+    expect(tracker.has(7)).toBe(true);
+    expect(tracker.has(5)).toBe(false);
+  });
+
+  it("should fold the oldest ids into the watermark when the window is full", () => {
+    const tracker = new EventIdTracker(2);
+    tracker.add(10);
+    tracker.add(20);
+    tracker.add(30);
+
+    expect(tracker.size).toBe(2);
+    // Ids up to the watermark are considered received
+    expect(tracker.has(5)).toBe(true);
+    expect(tracker.has(10)).toBe(true);
+    expect(tracker.has(25)).toBe(false);
+  });
+
+  it("should advance the watermark over contiguous ids", () => {
+    const tracker = new EventIdTracker(2);
+    tracker.add(1);
+    tracker.add(2);
+    tracker.add(3);
+    tracker.add(5);
+    tracker.add(4);
+
+    expect(tracker.size).toBe(0);
+    expect(tracker.has(5)).toBe(true);
+    expect(tracker.has(6)).toBe(false);
+  });
+
+  it("should keep ids received out of order", () => {
+    const tracker = new EventIdTracker(3);
+    tracker.add(1);
+    tracker.add(3);
+    tracker.add(2);
+
+    expect(tracker.has(1)).toBe(true);
+    expect(tracker.has(2)).toBe(true);
+    expect(tracker.has(3)).toBe(true);
+  });
+
+  it("should notify listeners of new ids", () => {
+    const tracker = new EventIdTracker();
+    const listener = vi.fn();
+    const unsubscribe = tracker.subscribe(listener);
+
+    tracker.add(1);
+    tracker.add(1);
+    unsubscribe();
+    tracker.add(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep a bounded window across 100k events", () => {
+    const tracker = new EventIdTracker();
+    for (let eventId = 1; eventId <= 100_000; eventId++) {
+      // Skip some ids like a stream shared between users
+      if (eventId % 3 === 0) continue;
+      tracker.add(eventId);
+    }
+
+    expect(tracker.size).toBeLessThanOrEqual(100);
+    expect(tracker.has(99_998)).toBe(true);
+  });
+});
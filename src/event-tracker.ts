@@ -0,0 +1,61 @@
+/**
+ * Tracks the received event ids with a high-water mark and a small window
+ * of ids received above it, so memory stays bounded however many events
+ * a long-lived collection receives.
+ *
+ * Every id up to the watermark is considered received. Ids arriving out of
+ * order are kept in the window until the watermark catches up with them,
+ * or until the window is full and its smallest ids are folded into the
+ * watermark.
+ */
+export class EventIdTracker {
+  private watermark: number | null = null;
+  // Received ids above the watermark, sorted in ascending order
+  private window: number[] = [];
+  private listeners = new Set<() => void>();
+  private windowSize: number;
+
+  constructor(windowSize = 100) {
+    this.windowSize = windowSize;
+  }
+
+  add(eventId: number) {
+    if (this.has(eventId)) return;
+
+    // Insert in order, events usually arrive last
+    let index = this.window.length;
+    while (index > 0 && this.window[index - 1]! > eventId) index--;
+    this.window.splice(index, 0, eventId);
+
+    // Fold the oldest ids into the watermark when the window is full
+    while (this.window.length > this.windowSize) {
+      this.watermark = this.window.shift()!;
+    }
+
+    // Advance the watermark over contiguous ids
+    while (this.watermark !== null && this.window[0] === this.watermark + 1) {
+      this.watermark = this.window.shift()!;
+    }
+
+    for (const listener of this.listeners) listener();
+  }
+
+  has(eventId: number): boolean {
+    if (this.watermark !== null && eventId <= this.watermark) return true;
+    return this.window.includes(eventId);
+  }
+
+  /**
+   * The number of ids kept in the window.
+   */
+  get size(): number {
+    return this.window.length;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi } from "vitest";
-import { TrpcSync, type TrpcSyncEvent } from "./events";
+import { z } from "zod";
+import {
+  TrpcSync,
+  TrpcConflictError,
+  TrpcValidationError,
+  formatConflictError,
+  type TrpcDataEvent,
+} from "./events";
 
 describe("TrpcSync", () => {
   it("should initialize with empty events", () => {
@@ -14,7 +21,7 @@ describe("TrpcSync", () => {
     const eventId = await sync.registerEvent({
       currentUserId: "user1",
       event: { action: "insert", data: { id: 1, title: "Test" } } as Omit<
-        TrpcSyncEvent<any>,
+        TrpcDataEvent<any>,
         "id" | "userId"
       >,
       saveEvent,
@@ -34,7 +41,7 @@ describe("TrpcSync", () => {
     await sync.registerEvent({
       currentUserId: "user1",
       event: { action: "insert", data: { id: 1, title: "Test 1" } } as Omit<
-        TrpcSyncEvent<any>,
+        TrpcDataEvent<any>,
         "id" | "userId"
       >,
       saveEvent,
@@ -42,7 +49,7 @@ describe("TrpcSync", () => {
     await sync.registerEvent({
       currentUserId: "user1",
       event: { action: "insert", data: { id: 2, title: "Test 2" } } as Omit<
-        TrpcSyncEvent<any>,
+        TrpcDataEvent<any>,
         "id" | "userId"
       >,
       saveEvent,
@@ -59,7 +66,7 @@ describe("TrpcSync", () => {
     await sync.registerEvent({
       currentUserId: "user1",
       event: { action: "insert", data: { id: 1, title: "Test" } } as Omit<
-        TrpcSyncEvent<any>,
+        TrpcDataEvent<any>,
         "id" | "userId"
       >,
       saveEvent,
@@ -75,5 +82,132 @@ describe("TrpcSync", () => {
     expect(iterable).toBeDefined();
     expect(typeof iterable[Symbol.asyncIterator]).toBe("function");
   });
-});
 
+  it("should only send the events matching the filter", async () => {
+    const sync = new TrpcSync<{ id: number; projectId: number }>();
+    const controller = new AbortController();
+    const saveEvent = vi
+      .fn()
+      .mockImplementationOnce(async (event) => ({ ...event, id: 1 }))
+      .mockImplementationOnce(async (event) => ({ ...event, id: 2 }));
+
+    const iterator = sync
+      .eventsSubscription({
+        userId: "user1",
+        signal: controller.signal,
+        filter: (event) => event.data.projectId === 2,
+      })
+      [Symbol.asyncIterator]();
+    const next = iterator.next();
+
+    for (const [id, projectId] of [
+      [1, 1],
+      [2, 2],
+    ]) {
+      await sync.registerEvent({
+        currentUserId: "user1",
+        event: { action: "insert", data: { id: id!, projectId: projectId! } },
+        saveEvent,
+      });
+    }
+
+    const { value } = await next;
+    expect((value as any)[0]).toBe("2");
+    // Chained to the previous event sent to this subscriber only
+    expect((value as any)[1]).toMatchObject({ id: 2, previousId: null });
+    controller.abort();
+  });
+
+  it("should send the control events whatever the filter", async () => {
+    const sync = new TrpcSync<{ id: number; projectId: number }>();
+    const controller = new AbortController();
+    const saveEvent = vi
+      .fn()
+      .mockImplementationOnce(async (event) => ({ ...event, id: 1 }))
+      .mockImplementationOnce(async (event) => ({ ...event, id: 2 }));
+
+    const iterator = sync
+      .eventsSubscription({
+        userId: "user1",
+        signal: controller.signal,
+        filter: () => false,
+      })
+      [Symbol.asyncIterator]();
+    const first = iterator.next();
+
+    await sync.reset({ currentUserId: "user1", saveEvent });
+    const { value: reset } = await first;
+    expect((reset as any)[1]).toMatchObject({ id: 1, action: "reset" });
+
+    const second = iterator.next();
+    await sync.invalidate({ currentUserId: "user1", keys: [3], saveEvent });
+    const { value: invalidate } = await second;
+    expect((invalidate as any)[1]).toMatchObject({
+      id: 2,
+      action: "invalidate",
+      keys: [3],
+      previousId: 1,
+    });
+    controller.abort();
+  });
+
+  it("should reject writes based on a stale version", () => {
+    const sync = new TrpcSync<{ id: number; updatedAt: Date }>();
+    const current = { id: 1, updatedAt: new Date(2) };
+
+    expect(() =>
+      sync.assertVersion(current, new Date(2), "updatedAt"),
+    ).not.toThrow();
+    expect(() =>
+      sync.assertVersion(current, new Date(2).toISOString(), "updatedAt"),
+    ).not.toThrow();
+    expect(() =>
+      sync.assertVersion(current, undefined, "updatedAt"),
+    ).not.toThrow();
+
+    let error: unknown;
+    try {
+      sync.assertVersion(current, new Date(1), "updatedAt");
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(TrpcConflictError);
+    expect(error).toMatchObject({ code: "CONFLICT", item: current });
+
+    const shape = { message: "", code: -32009, data: { code: "CONFLICT" } };
+    expect(
+      formatConflictError({ shape, error: error as TrpcConflictError<any> }),
+    ).toEqual({
+      ...shape,
+      data: { code: "CONFLICT", conflict: { item: current } },
+    });
+  });
+
+  it("should validate the items of the events with the schema", async () => {
+    const sync = new TrpcSync({
+      schema: z.object({ id: z.number(), count: z.coerce.number() }),
+    });
+    const saveEvent = vi.fn(async (event) => ({ ...event, id: 1 }));
+
+    await sync.registerEvent({
+      currentUserId: "user1",
+      event: { action: "insert", data: { id: 1, count: "2" as any } },
+      saveEvent,
+    });
+    expect(saveEvent).toHaveBeenCalledWith({
+      action: "insert",
+      data: { id: 1, count: 2 },
+      userId: "user1",
+    });
+
+    saveEvent.mockClear();
+    await expect(
+      sync.registerEvent({
+        currentUserId: "user1",
+        event: { action: "update", data: { id: "1" as any, count: 2 } },
+        saveEvent,
+      }),
+    ).rejects.toBeInstanceOf(TrpcValidationError);
+    expect(saveEvent).not.toHaveBeenCalled();
+  });
+});
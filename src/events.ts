@@ -1,14 +1,69 @@
 import EventEmitter, { on } from "events";
-import type { TrpcItem } from "./items";
-import { tracked } from "@trpc/server";
+import {
+  type TrpcGetKey,
+  type TrpcItem,
+  type TrpcItemKey,
+  type TrpcKeyOf,
+  getItemId,
+} from "./items";
+import { TRPCError, tracked } from "@trpc/server";
+import {
+  type StandardSchemaIssue,
+  type StandardSchemaV1,
+  formatIssues,
+  validateSchema,
+} from "./schema";
 
-export interface TrpcSyncEvent<TItem extends TrpcItem> {
+interface TrpcEventBase {
   id: number;
+  userId: string;
+  /**
+   * The id of the event sent before this one on the same subscription,
+   * for the client to detect the events it missed. Set by
+   * `eventsSubscription`, `null` for the first event of a subscription that
+   * does not resume from a previous event.
+   */
+  previousId?: number | null;
+}
+
+// A change of an item
+export interface TrpcDataEvent<TItem extends TrpcItem> extends TrpcEventBase {
   action: "insert" | "update" | "delete";
   data: TItem;
-  userId: string;
 }
 
+// Ask the clients to refetch the whole list, as their view is stale
+export interface TrpcResetEvent extends TrpcEventBase {
+  action: "reset";
+}
+
+// Ask the clients to refetch some items only
+export interface TrpcInvalidateEvent<
+  TItem extends TrpcItem,
+> extends TrpcEventBase {
+  action: "invalidate";
+  keys: TrpcKeyOf<TItem>[];
+}
+
+export type TrpcControlEvent<TItem extends TrpcItem> =
+  TrpcResetEvent | TrpcInvalidateEvent<TItem>;
+
+export type TrpcSyncEvent<TItem extends TrpcItem> =
+  TrpcDataEvent<TItem> | TrpcControlEvent<TItem>;
+
+// Omit applied to every member of a union
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * An event not saved yet, without its id.
+ */
+export type TrpcUnsavedEvent<TItem extends TrpcItem> = DistributiveOmit<
+  TrpcSyncEvent<TItem>,
+  "id"
+>;
+
 interface EventsEmitterEvents<TItem extends TrpcItem> {
   event: [userId: string, data: TrpcSyncEvent<TItem>];
 }
@@ -24,11 +79,88 @@ class IterableEventEmitter<TItem extends TrpcItem> extends EventEmitter<
   }
 }
 
+/**
+ * Thrown when a write is based on a stale version of an item, with the
+ * current item so that the client can resolve the conflict.
+ */
+export class TrpcConflictError<TItem extends TrpcItem> extends TRPCError {
+  readonly item: TItem;
+
+  constructor(item: TItem, key: TrpcItemKey = getItemId(item)) {
+    super({
+      code: "CONFLICT",
+      message: `Item ${key} was modified since the version being updated`,
+    });
+    this.name = "TrpcConflictError";
+    this.item = item;
+  }
+}
+
+/**
+ * Thrown when the item of an event fails the schema of the `TrpcSync`,
+ * before the event is saved.
+ */
+export class TrpcValidationError extends TRPCError {
+  readonly issues: ReadonlyArray<StandardSchemaIssue>;
+
+  constructor(issues: ReadonlyArray<StandardSchemaIssue>) {
+    super({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Invalid item: ${formatIssues(issues)}`,
+    });
+    this.name = "TrpcValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Send the current item of conflicts to the client, to use in the
+ * `errorFormatter` of `initTRPC`.
+ */
+export function formatConflictError<TShape extends { data: object }>({
+  shape,
+  error,
+}: {
+  shape: TShape;
+  error: TRPCError;
+}): TShape {
+  if (!(error instanceof TrpcConflictError)) return shape;
+  return {
+    ...shape,
+    data: { ...shape.data, conflict: { item: error.item } },
+  };
+}
+
+// Dates may be sent as strings without a transformer like superjson
+function isSameVersion(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      new Date(a as Date | string).getTime() ===
+      new Date(b as Date | string).getTime()
+    );
+  }
+  return a === b;
+}
+
 export class TrpcSync<TItem extends TrpcItem> {
   ee: IterableEventEmitter<TItem>;
+  private getKey: TrpcGetKey<TItem>;
+  private schema: StandardSchemaV1<unknown, TItem> | undefined;
 
-  constructor() {
+  /**
+   * @param opts.getKey The key of the items, their `id` by default.
+   * @param opts.schema A Standard Schema validating and coercing the items
+   * of the insert and update events before they are saved.
+   */
+  constructor(
+    opts: {
+      getKey?: TrpcGetKey<TItem>;
+      schema?: StandardSchemaV1<unknown, TItem>;
+    } = {},
+  ) {
     this.ee = new IterableEventEmitter();
+    this.getKey = opts.getKey ?? getItemId;
+    this.schema = opts.schema;
   }
 
   async *eventsSubscription(opts: {
@@ -36,27 +168,108 @@ export class TrpcSync<TItem extends TrpcItem> {
     signal: AbortSignal | undefined;
     lastEventId?: number | null;
     fetchLastEvents?: (lastEventId: number) => Promise<TrpcSyncEvent<TItem>[]>;
+    // Only send the item events matching the input of a scoped collection,
+    // control events being sent to every subscriber of the user
+    filter?: (event: TrpcDataEvent<TItem>) => boolean;
   }) {
+    const matches = (userId: string, event: TrpcSyncEvent<TItem>) => {
+      if (userId !== opts.userId) return false;
+      if (event.action === "reset" || event.action === "invalidate") {
+        return true;
+      }
+      return opts.filter?.(event) ?? true;
+    };
+
     const iterable = this.ee.toIterable("event", {
       signal: opts.signal,
     });
 
+    // Chain every event to the previous one sent to this subscriber
+    let previousId: number | null = null;
+    const send = (event: TrpcSyncEvent<TItem>) => {
+      const sentEvent = { ...event, previousId };
+      previousId = event.id;
+      return tracked(event.id.toString(), sentEvent);
+    };
+
     if (opts.lastEventId && opts.fetchLastEvents) {
+      previousId = opts.lastEventId;
       const lastEvents = await opts.fetchLastEvents(opts.lastEventId);
       for (const event of lastEvents) {
-        if (event.userId === opts.userId) {
-          yield tracked(event.id.toString(), event);
+        if (matches(event.userId, event)) {
+          yield send(event);
         }
       }
     }
 
     for await (const [userId, data] of iterable) {
-      if (userId === opts.userId) {
-        yield tracked(data.id.toString(), data);
+      if (matches(userId, data)) {
+        yield send(data);
       }
     }
   }
 
+  /**
+   * Reject a write based on a stale version of an item.
+   * @param current The item as currently stored.
+   * @param version The version the client based its write on, not
+   * checked when missing.
+   * @param versionField The field holding the version, like `version` or
+   * `updatedAt`.
+   * @throws TrpcConflictError when the versions differ.
+   */
+  assertVersion(
+    current: TItem,
+    version: unknown,
+    versionField: keyof TItem,
+  ): void {
+    if (version === undefined) return;
+    if (!isSameVersion(current[versionField], version)) {
+      throw new TrpcConflictError(current, this.getKey(current));
+    }
+  }
+
+  /**
+   * Ask the clients of the users to refetch the whole list, when their
+   * view is stale after a migration, a permission change or a restore.
+   * @returns The id of the event of the current user.
+   */
+  async reset(opts: {
+    currentUserId: string;
+    otherUserIds?: string[];
+    saveEvent: (
+      event: TrpcUnsavedEvent<TItem>,
+    ) => Promise<TrpcSyncEvent<TItem>>;
+  }) {
+    return this.registerEvent({ ...opts, event: { action: "reset" } });
+  }
+
+  /**
+   * Ask the clients of the users to refetch some items only.
+   * @param keys The keys of the items to refetch, the ones that are not
+   * listed anymore being deleted.
+   * @returns The id of the event of the current user.
+   */
+  async invalidate(opts: {
+    currentUserId: string;
+    otherUserIds?: string[];
+    keys: TrpcKeyOf<TItem>[];
+    saveEvent: (
+      event: TrpcUnsavedEvent<TItem>,
+    ) => Promise<TrpcSyncEvent<TItem>>;
+  }) {
+    const { keys, ...rest } = opts;
+    return this.registerEvent({
+      ...rest,
+      event: { action: "invalidate", keys },
+    });
+  }
+
+  /**
+   * Save an event for the users and send it to their subscriptions.
+   * @throws TrpcValidationError when the item fails the schema.
+   * @returns The id of the event of the current user.
+   */
   async registerEvent({
     currentUserId,
     otherUserIds,
@@ -65,11 +278,20 @@ export class TrpcSync<TItem extends TrpcItem> {
   }: {
     currentUserId: string;
     otherUserIds?: string[];
-    event: Omit<TrpcSyncEvent<TItem>, "id" | "userId">;
+    event: DistributiveOmit<TrpcSyncEvent<TItem>, "id" | "userId">;
     saveEvent: (
-      event: Omit<TrpcSyncEvent<TItem>, "id">,
+      event: TrpcUnsavedEvent<TItem>,
     ) => Promise<TrpcSyncEvent<TItem>>;
   }) {
+    if (
+      this.schema &&
+      (event.action === "insert" || event.action === "update")
+    ) {
+      const result = validateSchema(this.schema, event.data);
+      if (result.issues) throw new TrpcValidationError(result.issues);
+      event = { ...event, data: result.value };
+    }
+
     const currentUserEvent = await saveEvent({
       ...event,
       userId: currentUserId,
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { TrpcSync } from "./events";
+import { TrpcSyncHub } from "./hub";
+
+describe("TrpcSyncHub", () => {
+  it("should merge the events of every collection, tagged with its name", async () => {
+    const todos = new TrpcSync<{ id: number; title: string }>();
+    const projects = new TrpcSync<{ id: number; name: string }>();
+    const hub = new TrpcSyncHub({ todos, projects });
+    const controller = new AbortController();
+    let nextId = 1;
+    const saveEvent = vi.fn(async (event) => ({ ...event, id: nextId++ }));
+
+    const iterator = hub
+      .eventsSubscription({ userId: "user1", signal: controller.signal })
+      [Symbol.asyncIterator]();
+    const first = iterator.next();
+
+    await todos.registerEvent({
+      currentUserId: "user1",
+      event: { action: "insert", data: { id: 1, title: "A" } },
+      saveEvent,
+    });
+    const { value } = await first;
+    expect((value as any)[0]).toBe("todos:1");
+    expect((value as any)[1]).toMatchObject({
+      collection: "todos",
+      event: { id: 1, action: "insert", data: { id: 1, title: "A" } },
+    });
+
+    const second = iterator.next();
+    await projects.registerEvent({
+      currentUserId: "user1",
+      event: { action: "insert", data: { id: 1, name: "P" } },
+      saveEvent,
+    });
+    const { value: next } = await second;
+    expect((next as any)[1]).toMatchObject({
+      collection: "projects",
+      event: { id: 2, previousId: null },
+    });
+    controller.abort();
+  });
+
+  it("should replay the missed events of each collection", async () => {
+    const todos = new TrpcSync<{ id: number }>();
+    const projects = new TrpcSync<{ id: number }>();
+    const hub = new TrpcSyncHub({ todos, projects });
+    const controller = new AbortController();
+    const fetchTodoEvents = vi.fn(async () => [
+      { id: 5, userId: "user1", action: "insert" as const, data: { id: 1 } },
+    ]);
+
+    const iterator = hub
+      .eventsSubscription({
+        userId: "user1",
+        signal: controller.signal,
+        lastEventIds: { todos: 4, projects: null },
+        fetchLastEvents: { todos: fetchTodoEvents },
+      })
+      [Symbol.asyncIterator]();
+
+    const { value } = await iterator.next();
+    expect(fetchTodoEvents).toHaveBeenCalledWith(4);
+    expect((value as any)[1]).toMatchObject({
+      collection: "todos",
+      event: { id: 5, previousId: 4 },
+    });
+    controller.abort();
+  });
+});
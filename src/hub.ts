@@ -0,0 +1,100 @@
+import { tracked } from "@trpc/server";
+import type { TrpcItem } from "./items";
+import type { TrpcDataEvent, TrpcSyncEvent, TrpcSync } from "./events";
+
+/**
+ * An event of one of the collections of a hub.
+ */
+export interface TrpcHubEvent<TItem extends TrpcItem = TrpcItem> {
+  collection: string;
+  event: TrpcSyncEvent<TItem>;
+}
+
+type SyncItem<TSync> = TSync extends TrpcSync<infer TItem> ? TItem : never;
+
+// Yield the values of every iterable as they arrive
+async function* mergeIterables<T>(
+  iterables: AsyncIterable<T>[],
+): AsyncGenerator<T> {
+  const iterators = iterables.map((iterable) =>
+    iterable[Symbol.asyncIterator](),
+  );
+  // Errors are rethrown when raced, so the ones of the iterators left
+  // waiting when the merged one ends are not unhandled
+  const next = (index: number) =>
+    iterators[index]!.next().then(
+      (result) => ({ index, result, error: undefined }),
+      (error: unknown) => ({ index, result: undefined, error }),
+    );
+  const pending = new Map(iterators.map((_, index) => [index, next(index)]));
+
+  try {
+    while (pending.size > 0) {
+      const { index, result, error } = await Promise.race(pending.values());
+      if (!result) throw error;
+      if (result.done) {
+        pending.delete(index);
+        continue;
+      }
+      pending.set(index, next(index));
+      yield result.value;
+    }
+  } finally {
+    for (const iterator of iterators) iterator.return?.();
+  }
+}
+
+/**
+ * Merges the events of several `TrpcSync` instances into a single `listen`
+ * procedure, each event being tagged with the name of its collection, so
+ * that a client syncing many collections opens a single connection.
+ */
+export class TrpcSyncHub<TSyncs extends Record<string, TrpcSync<any>>> {
+  syncs: TSyncs;
+
+  constructor(syncs: TSyncs) {
+    this.syncs = syncs;
+  }
+
+  async *eventsSubscription(opts: {
+    userId: string;
+    signal: AbortSignal | undefined;
+    // The last event applied by each collection of the client
+    lastEventIds?: Partial<Record<keyof TSyncs, number | null>>;
+    fetchLastEvents?: {
+      [K in keyof TSyncs]?: (
+        lastEventId: number,
+      ) => Promise<TrpcSyncEvent<SyncItem<TSyncs[K]>>[]>;
+    };
+    filters?: {
+      [K in keyof TSyncs]?: (
+        event: TrpcDataEvent<SyncItem<TSyncs[K]>>,
+      ) => boolean;
+    };
+  }) {
+    const collections = Object.keys(this.syncs) as (keyof TSyncs & string)[];
+    const subscriptions = collections.map((collection) =>
+      this.tagEvents(collection, opts),
+    );
+
+    yield* mergeIterables(subscriptions);
+  }
+
+  private async *tagEvents(
+    collection: keyof TSyncs & string,
+    opts: Parameters<TrpcSyncHub<TSyncs>["eventsSubscription"]>[0],
+  ) {
+    const subscription = this.syncs[collection]!.eventsSubscription({
+      userId: opts.userId,
+      signal: opts.signal,
+      lastEventId: opts.lastEventIds?.[collection],
+      fetchLastEvents: opts.fetchLastEvents?.[collection],
+      filter: opts.filters?.[collection],
+    });
+
+    for await (const [id, event] of subscription) {
+      const hubEvent: TrpcHubEvent = { collection, event };
+      yield tracked(`${collection}:${id}`, hubEvent);
+    }
+  }
+}
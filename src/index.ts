@@ -1,2 +1,39 @@
-export { trpcCollectionOptions } from "./collection-options";
+export {
+  trpcCollectionOptions,
+  type ReadOnlyTrpcRouter,
+  type TrpcCollectionUtils,
+} from "./collection-options";
 export { type TrpcItem } from "./items";
+export { type TrpcRouterAdapter } from "./adapter";
+export { type ConflictResolution } from "./conflicts";
+export { type ConnectionState, type ReconnectConfig } from "./connection";
+export {
+  type MutationErrorBehavior,
+  type MutationErrorCode,
+  type MutationErrorContext,
+  TrpcMutationError,
+} from "./mutation-errors";
+export { type OutboxConfig, type OutboxEntry } from "./outbox";
+export { SyncHub, type SyncHubConfig } from "./sync-hub";
+export { type TempIdConfig, type TrpcKeySource } from "./temp-ids";
+export {
+  type InvalidRowPolicy,
+  type StandardSchemaIssue,
+  type StandardSchemaV1,
+  type TrpcInvalidRow,
+  type TrpcRowSource,
+} from "./schema";
+export {
+  type PaginationConfig,
+  type TrpcListCursor,
+  type TrpcListPage,
+  type TrpcListPageInput,
+} from "./pagination";
+export {
+  type Serializer,
+  type StorageAdapter,
+  jsonSerializer,
+  LocalStorageAdapter,
+  IndexedDBStorageAdapter,
+  MemoryStorageAdapter,
+} from "./storage";
@@ -1,3 +1,42 @@
-export interface TrpcItem {
-  id: string | number;
+/**
+ * The key of an item, returned by the `getKey` of its collection.
+ */
+export type TrpcItemKey = string | number;
+
+/**
+ * An item of a collection, identified by its `id` unless the collection
+ * provides a `getKey`, for example for composite keys.
+ */
+export type TrpcItem = object;
+
+// The type of the `id` of the items that have one
+export type TrpcKeyOf<TItem extends TrpcItem> = TItem extends {
+  id: infer TKey extends TrpcItemKey;
 }
+  ? TKey
+  : TrpcItemKey;
+
+export type TrpcGetKey<TItem extends TrpcItem> = (item: TItem) => TrpcItemKey;
+
+// The default key of the items
+export function getItemId(item: TrpcItem): TrpcItemKey {
+  return (item as { id: TrpcItemKey }).id;
+}
+
+/**
+ * Converts the rows of the server into the items of the collection, and
+ * back. Both receive whole rows.
+ */
+export interface TrpcRowTransforms<
+  TItem extends TrpcItem,
+  TRow extends TrpcItem = TItem,
+> {
+  fromServer(row: TRow): TItem;
+  toServer(item: TItem): TRow;
+}
+
+// Rows stored as they are
+export const identityTransforms: TrpcRowTransforms<any, any> = {
+  fromServer: (row) => row,
+  toServer: (item) => item,
+};
@@ -0,0 +1,71 @@
+import type { TRPC_ERROR_CODE_KEY } from "@trpc/server";
+import type { TrpcItem } from "./items";
+import type { PendingMutation } from "./outbox";
+import { isNetworkError } from "./outbox";
+
+/**
+ * The tRPC code of the error of a mutation, `NETWORK_ERROR` when the server
+ * was not reached, or `UNKNOWN` when the error has no code.
+ */
+export type MutationErrorCode =
+  TRPC_ERROR_CODE_KEY | "NETWORK_ERROR" | "UNKNOWN";
+
+/**
+ * What to do with the optimistic state of a failed mutation:
+ * - rollback: reject the transaction, rolling back the optimistic state
+ * - retry: send the mutation again, up to 3 times with backoff, before
+ *   rolling it back
+ * - keep: keep the optimistic state until the next refetch
+ */
+export type MutationErrorBehavior = "rollback" | "retry" | "keep";
+
+export interface MutationErrorContext<TItem extends TrpcItem> {
+  type: PendingMutation<TItem>["type"];
+  item: TItem;
+  error: TrpcMutationError<TItem>;
+  code: MutationErrorCode;
+}
+
+// The number of times a mutation is sent again with the retry behavior
+export const MAX_MUTATION_RETRIES = 3;
+
+export function getMutationErrorCode(error: unknown): MutationErrorCode {
+  if (isNetworkError(error)) return "NETWORK_ERROR";
+  if (typeof error !== "object" || error === null) return "UNKNOWN";
+  const data = (error as { data?: { code?: TRPC_ERROR_CODE_KEY } }).data;
+  return data?.code ?? "UNKNOWN";
+}
+
+/**
+ * Thrown when a mutation fails, wrapping the `TRPCClientError` as its
+ * `cause` and keeping its `data`, `shape` and `meta`.
+ */
+export class TrpcMutationError<TItem extends TrpcItem> extends Error {
+  readonly type: PendingMutation<TItem>["type"];
+  readonly items: TItem[];
+  readonly code: MutationErrorCode;
+  readonly data: { code?: string; httpStatus?: number } | undefined;
+  readonly shape: unknown;
+  readonly meta: Record<string, unknown> | undefined;
+
+  constructor(opts: {
+    type: PendingMutation<TItem>["type"];
+    items: TItem[];
+    error: unknown;
+  }) {
+    const { data, shape, meta } = (opts.error ?? {}) as Partial<
+      Pick<TrpcMutationError<TItem>, "data" | "shape" | "meta">
+    >;
+    super(
+      opts.error instanceof Error ? opts.error.message : String(opts.error),
+      { cause: opts.error },
+    );
+    this.name = "TrpcMutationError";
+    this.type = opts.type;
+    this.items = opts.items;
+    this.code = getMutationErrorCode(opts.error);
+    this.data = data;
+    this.shape = shape;
+    this.meta = meta;
+  }
+}
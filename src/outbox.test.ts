@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { Outbox, isNetworkError } from "./outbox";
+import { MemoryStorageAdapter, jsonSerializer } from "./storage";
+
+describe("Outbox", () => {
+  it("should load the saved entries", async () => {
+    const storage = new MemoryStorageAdapter();
+    const entries = [
+      { type: "insert", item: { id: 1 }, attempts: 0, createdAt: 0 },
+    ];
+    await storage.set(
+      "trpc-db-collection-todos-outbox",
+      JSON.stringify(entries),
+    );
+
+    const outbox = new Outbox("todos", storage, jsonSerializer);
+    await outbox.ready;
+
+    // Saved before the network errors were counted
+    expect(outbox.entries).toEqual([{ ...entries[0], networkAttempts: 0 }]);
+  });
+
+  it("should save the entries in order", async () => {
+    const storage = new MemoryStorageAdapter();
+    const outbox = new Outbox("todos", storage, jsonSerializer);
+    await outbox.ready;
+
+    outbox.push([
+      { type: "insert", item: { id: 1 } },
+      { type: "update", item: { id: 1 }, changes: { id: 1 } },
+    ]);
+    expect(outbox.size).toBe(2);
+    expect(outbox.has(1)).toBe(true);
+
+    expect(outbox.shift()?.type).toBe("insert");
+    expect(outbox.size).toBe(1);
+    await outbox.save();
+    expect(await storage.get("trpc-db-collection-todos-outbox")).toBe(
+      JSON.stringify(outbox.entries),
+    );
+  });
+
+  it("should convert the items and their changes with the transforms", async () => {
+    const storage = new MemoryStorageAdapter();
+    const transforms = {
+      fromServer: (row: { id: number; due: string }) => ({
+        id: row.id,
+        due: new Date(row.due),
+      }),
+      toServer: (todo: { id: number; due: Date }) => ({
+        id: todo.id,
+        due: todo.due.toISOString(),
+      }),
+    };
+    const due = new Date("2025-01-01T00:00:00.000Z");
+    const outbox = new Outbox(
+      "todos",
+      storage,
+      jsonSerializer,
+      undefined,
+      transforms,
+    );
+    await outbox.ready;
+    outbox.push([{ type: "update", item: { id: 1, due }, changes: { due } }]);
+    await outbox.save();
+
+    const reloaded = new Outbox(
+      "todos",
+      storage,
+      jsonSerializer,
+      undefined,
+      transforms,
+    );
+    await reloaded.ready;
+
+    expect(reloaded.entries).toMatchObject([
+      { type: "update", item: { id: 1, due }, changes: { due } },
+    ]);
+    expect(reloaded.entries[0]!.changes!.due).toBeInstanceOf(Date);
+  });
+});
+
+describe("isNetworkError", () => {
+  it("should detect failed requests", () => {
+    const error = new Error("Failed to fetch", {
+      cause: new TypeError("fetch failed"),
+    });
+    error.name = "TRPCClientError";
+    expect(isNetworkError(error)).toBe(true);
+  });
+
+  it("should not consider server errors as network errors", () => {
+    expect(isNetworkError(new Error("NOT_FOUND"))).toBe(false);
+    expect(isNetworkError("error")).toBe(false);
+  });
+
+  it("should not consider the errors of the client code as network errors", () => {
+    expect(isNetworkError(new TypeError("Cannot read properties"))).toBe(false);
+  });
+});
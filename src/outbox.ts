@@ -0,0 +1,209 @@
+import {
+  type TrpcGetKey,
+  type TrpcItem,
+  type TrpcItemKey,
+  type TrpcRowTransforms,
+  getItemId,
+  identityTransforms,
+} from "./items";
+import {
+  type Serializer,
+  type StorageAdapter,
+  getOutboxKey,
+  loadFromStorage,
+  saveToStorage,
+} from "./storage";
+import { replaceKey } from "./temp-ids";
+
+export interface PendingMutation<TItem extends TrpcItem> {
+  type: "insert" | "update" | "delete";
+  item: TItem;
+  changes?: Partial<TItem>;
+}
+
+export interface OutboxEntry<
+  TItem extends TrpcItem,
+> extends PendingMutation<TItem> {
+  attempts: number;
+  // The replays that failed without reaching the server
+  networkAttempts: number;
+  createdAt: number;
+}
+
+export interface OutboxConfig<TItem extends TrpcItem> {
+  /**
+   * The number of failed replays before an entry is dropped.
+   * @default 5
+   */
+  maxAttempts: number;
+
+  /**
+   * The number of replays failing to reach the server before an entry is
+   * dropped, counted apart as the server may be unreachable for a while.
+   * @default 100
+   */
+  maxNetworkAttempts: number;
+
+  /**
+   * The delay before replaying the outbox again after a failure, in
+   * milliseconds.
+   * @default 5000
+   */
+  retryDelay: number;
+
+  /**
+   * Called when an entry is dropped after too many failed replays.
+   * @param entry The dropped entry.
+   * @param error The error of the last replay.
+   */
+  onFailed?: (entry: OutboxEntry<TItem>, error: unknown) => void;
+}
+
+export const defaultOutboxConfig: OutboxConfig<TrpcItem> = {
+  maxAttempts: 5,
+  maxNetworkAttempts: 100,
+  retryDelay: 5000,
+};
+
+// The server never answered: the browser is offline or the request failed
+// before getting a response, the `TRPCClientError` wrapping the `TypeError`
+// of fetch. Other errors, like the ones of the hooks building the inputs,
+// are not.
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return true;
+  }
+  return (
+    error instanceof Error &&
+    error.name === "TRPCClientError" &&
+    error.cause instanceof Error &&
+    error.cause.name === "TypeError"
+  );
+}
+
+// The changes of an update, rebuilt from its converted item, as they are
+// stored like the rows of the server but can't be converted on their own
+function pickChanges<TItem extends TrpcItem>(
+  item: TItem,
+  changes: object | undefined,
+): Partial<TItem> | undefined {
+  if (!changes) return undefined;
+  return Object.fromEntries(
+    Object.keys(changes).map((field) => [field, item[field as keyof TItem]]),
+  ) as Partial<TItem>;
+}
+
+/**
+ * The mutations that could not reach the server, persisted in the storage
+ * to be replayed in order once the server is reachable again.
+ */
+export class Outbox<TItem extends TrpcItem> {
+  entries: OutboxEntry<TItem>[] = [];
+  /**
+   * Resolves once the saved entries are loaded.
+   */
+  ready: Promise<void>;
+  private key: string;
+  private storage: StorageAdapter | null;
+  private serializer: Serializer;
+  private saving: Promise<void> = Promise.resolve();
+  private getKey: TrpcGetKey<TItem>;
+  private transforms: TrpcRowTransforms<TItem, TrpcItem>;
+
+  constructor(
+    collectionName: string,
+    storage: StorageAdapter | null,
+    serializer: Serializer,
+    getKey: TrpcGetKey<TItem> = getItemId,
+    transforms: TrpcRowTransforms<TItem, TrpcItem> = identityTransforms,
+  ) {
+    this.key = getOutboxKey(collectionName);
+    this.storage = storage;
+    this.serializer = serializer;
+    this.getKey = getKey;
+    this.transforms = transforms;
+    this.ready = this.load();
+  }
+
+  private async load() {
+    if (!this.storage) return;
+    const entries = await loadFromStorage<OutboxEntry<TrpcItem>[]>(
+      this.storage,
+      this.key,
+      this.serializer,
+    );
+    // Keep the entries pushed while loading after the saved ones
+    this.entries = [
+      ...(entries ?? []).map((entry) => {
+        const item = this.transforms.fromServer(entry.item);
+        return {
+          ...entry,
+          item,
+          changes: pickChanges(item, entry.changes),
+          // Saved before the network errors were counted
+          networkAttempts: entry.networkAttempts ?? 0,
+        };
+      }),
+      ...this.entries,
+    ];
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(mutations: PendingMutation<TItem>[]) {
+    for (const mutation of mutations) {
+      this.entries.push({
+        ...mutation,
+        attempts: 0,
+        networkAttempts: 0,
+        createdAt: Date.now(),
+      });
+    }
+    this.save();
+  }
+
+  shift(): OutboxEntry<TItem> | undefined {
+    const entry = this.entries.shift();
+    this.save();
+    return entry;
+  }
+
+  has(key: TrpcItemKey): boolean {
+    return this.entries.some((entry) => this.getKey(entry.item) === key);
+  }
+
+  /**
+   * Swap a temporary id for the one assigned by the server in the given
+   * fields of the entries.
+   */
+  replaceKey(fields: string[], tempKey: TrpcItemKey, key: TrpcItemKey) {
+    let isChanged = false;
+    for (const entry of this.entries) {
+      const item = replaceKey(entry.item, fields, tempKey, key);
+      const changes =
+        entry.changes && replaceKey(entry.changes, fields, tempKey, key);
+      if (item === entry.item && changes === entry.changes) continue;
+      entry.item = item;
+      entry.changes = changes;
+      isChanged = true;
+    }
+    if (isChanged) this.save();
+  }
+
+  // Saves are chained so that they are written in order
+  save(): Promise<void> {
+    const storage = this.storage;
+    if (!storage) return this.saving;
+    // The items are stored as the server sends them
+    const entries = this.entries.map((entry) => ({
+      ...entry,
+      item: this.transforms.toServer(entry.item),
+    }));
+    this.saving = this.saving.then(() =>
+      saveToStorage(storage, this.key, entries, this.serializer),
+    );
+    return this.saving;
+  }
+}
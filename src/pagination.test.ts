@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  type TrpcListPage,
+  type TrpcListPageInput,
+  fetchPages,
+} from "./pagination";
+
+describe("fetchPages", () => {
+  it("should follow the cursors until the last page", async () => {
+    const list = {
+      query: vi.fn(
+        async ({
+          cursor,
+        }: TrpcListPageInput): Promise<TrpcListPage<{ id: number }>> =>
+          cursor === null
+            ? { items: [{ id: 1 }, { id: 2 }], nextCursor: 2 }
+            : { items: [{ id: 3 }], nextCursor: null },
+      ),
+    };
+
+    const pages = [];
+    for await (const page of fetchPages(list, {
+      limit: 2,
+      markReady: "last-page",
+    })) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([
+      { items: [{ id: 1 }, { id: 2 }], isLastPage: false },
+      { items: [{ id: 3 }], isLastPage: true },
+    ]);
+    expect(list.query).toHaveBeenNthCalledWith(1, { cursor: null, limit: 2 });
+    expect(list.query).toHaveBeenNthCalledWith(2, { cursor: 2, limit: 2 });
+  });
+
+  it("should fetch the whole list without pagination", async () => {
+    const list = { query: vi.fn(async () => [{ id: 1 }]) };
+
+    const pages = [];
+    for await (const page of fetchPages(list, null)) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([{ items: [{ id: 1 }], isLastPage: true }]);
+    expect(list.query).toHaveBeenCalledWith();
+  });
+});
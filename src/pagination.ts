@@ -0,0 +1,121 @@
+import type { TrpcItem, TrpcItemKey } from "./items";
+
+export type TrpcListCursor = string | number;
+
+export interface TrpcListPageInput {
+  cursor: TrpcListCursor | null;
+  limit: number;
+}
+
+export interface TrpcListPage<TItem extends TrpcItem> {
+  items: TItem[];
+  /**
+   * The cursor of the next page, or `null` after the last page.
+   */
+  nextCursor: TrpcListCursor | null;
+}
+
+/**
+ * The input scoping a collection, forwarded to `list` and `listen`.
+ */
+export type TrpcCollectionInput = object | undefined;
+
+// Procedures of collections without input are called without argument
+export type TrpcListQuery<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+> =
+  | ([TInput] extends [undefined]
+      ? () => Promise<TItem[]>
+      : (input: TInput) => Promise<TItem[]>)
+  | ((
+      input: [TInput] extends [undefined]
+        ? TrpcListPageInput
+        : TInput & TrpcListPageInput,
+    ) => Promise<TrpcListPage<TItem>>);
+
+// Query of the items of some keys, with the input scoping the collection
+export type TrpcListByKeysQuery<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcItemKey,
+> = (
+  input: ([TInput] extends [undefined] ? unknown : TInput) & { keys: TKey[] },
+) => Promise<TItem[]>;
+
+export interface PaginationConfig {
+  /**
+   * The number of rows requested per page.
+   * @default 1000
+   */
+  limit: number;
+
+  /**
+   * When the collection is marked as ready during the initial load:
+   * - first-page: as soon as the first page is written, the next pages
+   *   being streamed in afterwards
+   * - last-page: once every page is written
+   * @default "last-page"
+   */
+  markReady: "first-page" | "last-page";
+}
+
+export const defaultPaginationConfig: PaginationConfig = {
+  limit: 1000,
+  markReady: "last-page",
+};
+
+/**
+ * Fetch the list page by page, following the cursors until the last page.
+ * Without pagination, the whole list is yielded as a single page.
+ */
+export async function* fetchPages<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+>(
+  list: { query: TrpcListQuery<TItem, TInput> },
+  pagination: PaginationConfig | null,
+  input?: TInput,
+): AsyncGenerator<{ items: TItem[]; isLastPage: boolean }> {
+  if (!pagination) {
+    const query = list as { query: (input?: TInput) => Promise<TItem[]> };
+    const items = await (input === undefined
+      ? query.query()
+      : query.query(input));
+    yield { items, isLastPage: true };
+    return;
+  }
+
+  const pages = list as {
+    query: (input: TrpcListPageInput) => Promise<TrpcListPage<TItem>>;
+  };
+  let cursor: TrpcListCursor | null = null;
+  do {
+    const page: TrpcListPage<TItem> = await pages.query({
+      ...input,
+      cursor,
+      limit: pagination.limit,
+    });
+    cursor = page.nextCursor ?? null;
+    yield { items: page.items, isLastPage: cursor === null };
+  } while (cursor !== null);
+}
+
+/**
+ * Fetch only the items of the given keys, yielded as a single page.
+ */
+export async function* fetchKeys<
+  TItem extends TrpcItem,
+  TInput extends TrpcCollectionInput = undefined,
+  TKey extends TrpcItemKey = TrpcItemKey,
+>(
+  listByKeys: { query: TrpcListByKeysQuery<TItem, TInput, TKey> },
+  keys: TKey[],
+  input?: TInput,
+): AsyncGenerator<{ items: TItem[]; isLastPage: boolean }> {
+  const items = await listByKeys.query({
+    ...input,
+    keys,
+  } as Parameters<typeof listByKeys.query>[0]);
+  yield { items, isLastPage: true };
+}
@@ -0,0 +1,72 @@
+import { bench, describe } from "vitest";
+import { CollectionPersistence } from "./persistence";
+import {
+  type StorageAdapter,
+  MemoryStorageAdapter,
+  jsonSerializer,
+  getStorageKey,
+} from "./storage";
+import { Logger } from "./logger";
+
+interface Todo {
+  id: number;
+  title: string;
+  completed: boolean;
+}
+
+const ROWS = 2000;
+const UPDATES = 100;
+
+const rows: Todo[] = Array.from({ length: ROWS }, (_, index) => ({
+  id: index + 1,
+  title: `Todo ${index + 1}`,
+  completed: false,
+}));
+
+const logger = new Logger({ enabled: false }, "todos");
+
+// The previous implementation, rewriting the whole array on every write
+async function rewriteArray(storage: StorageAdapter, item: Todo) {
+  const key = getStorageKey("todos");
+  const data = await storage.get(key);
+  const currentData: Todo[] = data ? JSON.parse(data) : [];
+  const updatedData = currentData.map((existingItem) =>
+    existingItem.id === item.id ? { ...existingItem, ...item } : existingItem,
+  );
+  await storage.set(key, JSON.stringify(updatedData));
+}
+
+describe(`${UPDATES} updates of a cache of ${ROWS} rows`, async () => {
+  const arrayStorage = new MemoryStorageAdapter();
+  await arrayStorage.set(getStorageKey("todos"), JSON.stringify(rows));
+
+  bench("whole array rewritten on every write", async () => {
+    for (let index = 0; index < UPDATES; index++) {
+      await rewriteArray(arrayStorage, { ...rows[index]!, completed: true });
+    }
+  });
+
+  const rowStorage = new MemoryStorageAdapter();
+  const persistence = new CollectionPersistence<Todo>(
+    "todos",
+    rowStorage,
+    jsonSerializer,
+    logger,
+  );
+  persistence.replaceAll(rows);
+  await persistence.flush();
+
+  bench("one key per row, flushed on every write", async () => {
+    for (let index = 0; index < UPDATES; index++) {
+      persistence.write("update", { ...rows[index]!, completed: true });
+      await persistence.flush();
+    }
+  });
+
+  bench("one key per row, batched", async () => {
+    for (let index = 0; index < UPDATES; index++) {
+      persistence.write("update", { ...rows[index]!, completed: true });
+    }
+    await persistence.flush();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { CollectionPersistence } from "./persistence";
+import {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  jsonSerializer,
+} from "./storage";
+import { Logger } from "./logger";
+
+interface Todo {
+  id: number;
+  title?: string;
+}
+
+describe("CollectionPersistence", () => {
+  let storage: MemoryStorageAdapter;
+  let persistence: CollectionPersistence<Todo>;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    persistence = new CollectionPersistence<Todo>(
+      "todos",
+      storage,
+      jsonSerializer,
+      new Logger({ enabled: false }, "todos"),
+    );
+  });
+
+  it("should load nothing when the storage can't list its keys", async () => {
+    // Without `localStorage`, like during SSR
+    const persistence = new CollectionPersistence<Todo>(
+      "todos",
+      new LocalStorageAdapter(),
+      jsonSerializer,
+      new Logger({ enabled: false }, "todos"),
+    );
+
+    expect(await persistence.load()).toBeNull();
+  });
+
+  it("should store each row under its own key", async () => {
+    persistence.write("insert", { id: 1, title: "A" });
+    persistence.write("insert", { id: 2, title: "B" });
+    persistence.write("insert", { id: 2, title: "B" });
+    persistence.write("update", { id: 1, title: "C" });
+    persistence.write("delete", { id: 2 });
+    await persistence.flush();
+
+    expect(await storage.keys()).toEqual(["trpc-db-collection-todos:row:1"]);
+    expect(await persistence.load()).toEqual([{ id: 1, title: "C" }]);
+  });
+
+  it("should only rewrite the rows that changed", async () => {
+    persistence.replaceAll([
+      { id: 1, title: "A" },
+      { id: 2, title: "B" },
+    ]);
+    await persistence.flush();
+
+    const written: string[] = [];
+    const set = storage.set.bind(storage);
+    storage.set = async (key, value) => {
+      written.push(key);
+      await set(key, value);
+    };
+
+    persistence.write("update", { id: 2, title: "C" });
+    await persistence.flush();
+
+    expect(written).toEqual(["trpc-db-collection-todos:row:2"]);
+    expect(await persistence.load()).toEqual([
+      { id: 1, title: "A" },
+      { id: 2, title: "C" },
+    ]);
+  });
+
+  it("should not store updates of missing rows", async () => {
+    persistence.write("update", { id: 1, title: "A" });
+    await persistence.flush();
+
+    expect(await storage.keys()).toEqual([]);
+  });
+
+  it("should drop the stale rows when replacing every row", async () => {
+    persistence.write("insert", { id: 1, title: "A" });
+    await persistence.flush();
+
+    persistence.write("insert", { id: 3, title: "C" });
+    persistence.replaceAll([{ id: 2, title: "B" }]);
+    persistence.setLastEventId(4);
+    await persistence.flush();
+
+    expect(await persistence.load()).toEqual([{ id: 2, title: "B" }]);
+    expect(await storage.get("trpc-db-collection-todos-last-event-id")).toBe(
+      "4",
+    );
+  });
+
+  it("should batch the writes made together", async () => {
+    persistence.write("insert", { id: 1, title: "A" });
+    expect(await storage.keys()).toEqual([]);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await storage.keys()).toEqual(["trpc-db-collection-todos:row:1"]);
+  });
+
+  it("should migrate the rows cached as a single array", async () => {
+    await storage.set(
+      "trpc-db-collection-todos",
+      JSON.stringify([{ id: 1, title: "A" }]),
+    );
+
+    expect(await persistence.load()).toEqual([{ id: 1, title: "A" }]);
+    expect(await storage.keys()).toEqual(["trpc-db-collection-todos:row:1"]);
+  });
+
+  it("should wrap the rows with their version", async () => {
+    persistence.write("insert", { id: 1, title: "A" });
+    await persistence.flush();
+
+    const row = JSON.parse(
+      (await storage.get("trpc-db-collection-todos:row:1"))!,
+    );
+    expect(row).toEqual({
+      version: 1,
+      savedAt: expect.any(Number),
+      data: { id: 1, title: "A" },
+    });
+  });
+
+  it("should migrate the rows cached with a previous version", async () => {
+    await storage.set(
+      "trpc-db-collection-todos:row:1",
+      JSON.stringify({ version: 1, savedAt: 0, data: { id: 1, name: "A" } }),
+    );
+    const migrated = new CollectionPersistence<Todo>(
+      "todos",
+      storage,
+      jsonSerializer,
+      new Logger({ enabled: false }, "todos"),
+      {
+        version: 2,
+        migrate: (old, fromVersion) =>
+          fromVersion === 1
+            ? { id: (old as any).id, title: (old as any).name }
+            : null,
+      },
+    );
+
+    expect(await migrated.load()).toEqual([{ id: 1, title: "A" }]);
+    await migrated.flush();
+    expect(
+      JSON.parse((await storage.get("trpc-db-collection-todos:row:1"))!),
+    ).toMatchObject({ version: 2, data: { id: 1, title: "A" } });
+  });
+
+  it("should discard the caches that can't be migrated", async () => {
+    await storage.set(
+      "trpc-db-collection-todos:row:1",
+      JSON.stringify({ version: 1, savedAt: 0, data: { id: 1 } }),
+    );
+    await storage.set("trpc-db-collection-todos-last-event-id", "4");
+    const migrated = new CollectionPersistence<Todo>(
+      "todos",
+      storage,
+      jsonSerializer,
+      new Logger({ enabled: false }, "todos"),
+      { version: 2 },
+    );
+
+    expect(await migrated.load()).toBeNull();
+    expect(await storage.keys()).toEqual([]);
+  });
+});
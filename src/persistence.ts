@@ -0,0 +1,360 @@
+import {
+  type TrpcGetKey,
+  type TrpcItem,
+  type TrpcItemKey,
+  type TrpcRowTransforms,
+  getItemId,
+  identityTransforms,
+} from "./items";
+import type { Logger } from "./logger";
+import {
+  type Serializer,
+  type StorageAdapter,
+  getRowKeyPrefix,
+  getStorageKey,
+  loadFromStorage,
+  saveLastEventId,
+  saveToStorage,
+} from "./storage";
+
+// Writes made within this delay are batched together
+const FLUSH_DELAY = 16;
+
+/**
+ * A cached row, with the version of the cache format it was written with.
+ */
+export interface CacheEnvelope<T> {
+  version: number;
+  savedAt: number;
+  data: T;
+}
+
+export interface CacheConfig<TItem extends TrpcItem> {
+  /**
+   * The version of the cached rows, to increase when their shape changes.
+   * Rows cached before versions were saved are considered to be version 1.
+   * @default 1
+   */
+  version: number;
+
+  /**
+   * Migrate a row cached with a previous version to the current one.
+   * The whole cache is discarded when a row can't be migrated, either
+   * because this returns `null` or throws.
+   * @param old The cached row.
+   * @param fromVersion The version the row was cached with.
+   */
+  migrate?: (old: unknown, fromVersion: number) => TItem | null;
+}
+
+function isCacheEnvelope(value: unknown): value is CacheEnvelope<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as CacheEnvelope<unknown>).version === "number" &&
+    "data" in value
+  );
+}
+
+type PendingWrite<TItem extends TrpcItem> =
+  | { type: "set"; item: TItem }
+  | { type: "merge"; item: TItem }
+  | { type: "delete" };
+
+/**
+ * Persists the rows of a collection in the storage, one key per row, so
+ * that a write only serializes the rows that changed. Writes are batched
+ * and flushed together after a frame.
+ */
+export class CollectionPersistence<TItem extends TrpcItem> {
+  private name: string;
+  private storage: StorageAdapter;
+  private serializer: Serializer;
+  private logger: Logger;
+  private cacheConfig: CacheConfig<TItem>;
+  private getKey: TrpcGetKey<TItem>;
+  private transforms: TrpcRowTransforms<TItem, TrpcItem>;
+
+  private pending = new Map<TrpcItemKey, PendingWrite<TItem>>();
+  private replacement: TItem[] | null = null;
+  private lastEventId: number | null | undefined = undefined;
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    name: string,
+    storage: StorageAdapter,
+    serializer: Serializer,
+    logger: Logger,
+    cacheConfig: Partial<CacheConfig<TItem>> = {},
+    getKey: TrpcGetKey<TItem> = getItemId,
+    transforms: TrpcRowTransforms<TItem, TrpcItem> = identityTransforms,
+  ) {
+    this.name = name;
+    this.storage = storage;
+    this.serializer = serializer;
+    this.logger = logger;
+    this.cacheConfig = {
+      version: cacheConfig.version ?? 1,
+      migrate: cacheConfig.migrate,
+    };
+    this.getKey = getKey;
+    this.transforms = transforms;
+  }
+
+  private rowKey(key: TrpcItemKey): string {
+    return `${getRowKeyPrefix(this.name)}${key}`;
+  }
+
+  // A storage that can't list its keys, like a missing `localStorage`
+  // during SSR, holds no rows
+  private async rowKeys(): Promise<string[]> {
+    const prefix = getRowKeyPrefix(this.name);
+    try {
+      const keys = await this.storage.keys();
+      return keys.filter((key) => key.startsWith(prefix));
+    } catch (error) {
+      this.logger.error("Failed to list the keys of the storage:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Load the cached rows, migrating the ones cached with a previous
+   * version.
+   * @returns The rows, or `null` when nothing usable is cached.
+   */
+  async load(): Promise<TItem[] | null> {
+    const keys = await this.rowKeys();
+    if (keys.length === 0) return this.loadLegacy();
+
+    const entries = await Promise.all(
+      keys.map((key) =>
+        loadFromStorage<unknown>(this.storage, key, this.serializer),
+      ),
+    );
+    const envelopes = entries.filter((entry) => entry !== null);
+    if (!envelopes.every(isCacheEnvelope)) {
+      this.logger.error("Discarding the unreadable cache");
+      await this.discard();
+      return null;
+    }
+
+    const items = this.migrate(envelopes);
+    if (!items) {
+      await this.discard();
+      return null;
+    }
+    if (envelopes.some(({ version }) => version !== this.cacheConfig.version)) {
+      this.replaceAll(items);
+    }
+    return items;
+  }
+
+  // Caches written before rows were stored one by one hold the whole array
+  private async loadLegacy(): Promise<TItem[] | null> {
+    const key = getStorageKey(this.name);
+    const rows = await loadFromStorage<unknown[]>(
+      this.storage,
+      key,
+      this.serializer,
+    );
+    if (!rows) return null;
+
+    const items = this.migrate(
+      rows.map((data) => ({ version: 1, savedAt: 0, data })),
+    );
+    if (!items) {
+      await this.discard();
+      return null;
+    }
+
+    this.replaceAll(items);
+    await this.flush();
+    await this.storage.delete(key);
+    return items;
+  }
+
+  private migrate(envelopes: CacheEnvelope<unknown>[]): TItem[] | null {
+    const { version, migrate } = this.cacheConfig;
+    const items: TItem[] = [];
+    for (const envelope of envelopes) {
+      if (envelope.version === version) {
+        items.push(this.transforms.fromServer(envelope.data as TrpcItem));
+        continue;
+      }
+
+      let item: TItem | null = null;
+      try {
+        item = migrate?.(envelope.data, envelope.version) ?? null;
+      } catch (error) {
+        this.logger.error("Failed to migrate a cached row:", error);
+      }
+      if (!item) {
+        this.logger.error(
+          `Discarding the cache, rows of version ${envelope.version} can't be migrated to version ${version}`,
+        );
+        return null;
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  // Delete every cached row with the last event id, which described them
+  private async discard() {
+    this.pending.clear();
+    this.replacement = null;
+    const keys = await this.rowKeys();
+    await Promise.all(keys.map((key) => this.storage.delete(key)));
+    await this.storage.delete(getStorageKey(this.name));
+    await saveLastEventId(this.storage, this.name, null);
+  }
+
+  // Rows are stored as the server sends them
+  private wrap(item: TItem): CacheEnvelope<TrpcItem> {
+    return {
+      version: this.cacheConfig.version,
+      savedAt: Date.now(),
+      data: this.transforms.toServer(item),
+    };
+  }
+
+  write(operation: "insert" | "update" | "delete", item: TItem) {
+    const key = this.getKey(item);
+    const previous = this.pending.get(key);
+
+    switch (operation) {
+      case "insert":
+        this.pending.set(key, { type: "set", item });
+        break;
+      case "update":
+        if (previous?.type === "delete") {
+          // The row is not stored anymore, like an update of a missing row
+          break;
+        }
+        this.pending.set(key, {
+          type: previous?.type ?? "merge",
+          item: previous ? { ...previous.item, ...item } : item,
+        });
+        break;
+      case "delete":
+        this.pending.set(key, { type: "delete" });
+        break;
+    }
+
+    this.scheduleFlush();
+  }
+
+  /**
+   * Replace every stored row, dropping the writes not flushed yet.
+   */
+  replaceAll(items: TItem[]) {
+    this.pending.clear();
+    this.replacement = items;
+    this.scheduleFlush();
+  }
+
+  setLastEventId(eventId: number | null) {
+    this.lastEventId = eventId;
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer !== undefined) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+  }
+
+  /**
+   * Write the pending changes now.
+   * @returns A promise resolved once every change is written.
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const replacement = this.replacement;
+    const pending = this.pending;
+    const lastEventId = this.lastEventId;
+    this.replacement = null;
+    this.pending = new Map();
+    this.lastEventId = undefined;
+
+    // Flushes are chained so that they never interleave
+    this.flushing = this.flushing
+      .then(() => this.writeChanges(replacement, pending, lastEventId))
+      .catch((error) => this.logger.error("Failed to update storage:", error));
+    return this.flushing;
+  }
+
+  private async writeChanges(
+    replacement: TItem[] | null,
+    pending: Map<TrpcItemKey, PendingWrite<TItem>>,
+    lastEventId: number | null | undefined,
+  ) {
+    if (replacement) {
+      const keys = new Set(
+        replacement.map((item) => this.rowKey(this.getKey(item))),
+      );
+      const staleKeys = (await this.rowKeys()).filter((key) => !keys.has(key));
+      await Promise.all(staleKeys.map((key) => this.storage.delete(key)));
+      await Promise.all(
+        replacement.map((item) =>
+          saveToStorage(
+            this.storage,
+            this.rowKey(this.getKey(item)),
+            this.wrap(item),
+            this.serializer,
+          ),
+        ),
+      );
+    }
+
+    await Promise.all(
+      [...pending].map(async ([id, write]) => {
+        const key = this.rowKey(id);
+        switch (write.type) {
+          case "set":
+            return saveToStorage(
+              this.storage,
+              key,
+              this.wrap(write.item),
+              this.serializer,
+            );
+          case "merge": {
+            // Only update the rows that are stored
+            const existing = await loadFromStorage<CacheEnvelope<TrpcItem>>(
+              this.storage,
+              key,
+              this.serializer,
+            );
+            if (!existing) return;
+            return saveToStorage(
+              this.storage,
+              key,
+              this.wrap({
+                ...this.transforms.fromServer(existing.data),
+                ...write.item,
+              }),
+              this.serializer,
+            );
+          }
+          case "delete":
+            return this.storage.delete(key);
+        }
+      }),
+    );
+
+    if (lastEventId !== undefined) {
+      await saveLastEventId(this.storage, this.name, lastEventId);
+    }
+
+    if (replacement || pending.size > 0) {
+      this.logger.debug(
+        "Updated storage",
+        replacement ? replacement.length : pending.size,
+        "rows",
+      );
+    }
+  }
+}
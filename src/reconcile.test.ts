@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { diffRows, isDeepEqual } from "./reconcile";
+
+describe("diffRows", () => {
+  it("should only return the rows that changed", () => {
+    const cached = [
+      { id: 1, title: "A" },
+      { id: 2, title: "B" },
+      { id: 3, title: "C" },
+    ];
+    const fresh = [
+      { id: 1, title: "A" },
+      { id: 2, title: "B2" },
+      { id: 4, title: "D" },
+    ];
+
+    expect(diffRows(cached, fresh)).toEqual([
+      { type: "update", value: { id: 2, title: "B2" } },
+      { type: "insert", value: { id: 4, title: "D" } },
+      { type: "delete", value: { id: 3, title: "C" } },
+    ]);
+  });
+
+  it("should match the rows by the given key", () => {
+    const getKey = (member: { projectId: number; userId: number }) =>
+      `${member.projectId}:${member.userId}`;
+    const cached = [
+      { projectId: 1, userId: 1, role: "owner" },
+      { projectId: 1, userId: 2, role: "member" },
+    ];
+    const fresh = [
+      { projectId: 1, userId: 1, role: "owner" },
+      { projectId: 2, userId: 2, role: "member" },
+    ];
+
+    expect(diffRows(cached, fresh, undefined, getKey)).toEqual([
+      { type: "insert", value: { projectId: 2, userId: 2, role: "member" } },
+      { type: "delete", value: { projectId: 1, userId: 2, role: "member" } },
+    ]);
+  });
+
+  it("should use the given equality function", () => {
+    const cached = [{ id: 1, title: "A", updatedAt: 1 }];
+    const fresh = [{ id: 1, title: "A", updatedAt: 2 }];
+
+    expect(diffRows(cached, fresh)).toHaveLength(1);
+    expect(diffRows(cached, fresh, (a, b) => a.title === b.title)).toHaveLength(
+      0,
+    );
+  });
+});
+
+describe("isDeepEqual", () => {
+  it("should compare nested values", () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(isDeepEqual([1], { 0: 1 })).toBe(false);
+    expect(isDeepEqual(null, {})).toBe(false);
+  });
+
+  it("should compare dates by their time", () => {
+    expect(isDeepEqual(new Date(0), new Date(0))).toBe(true);
+    expect(isDeepEqual(new Date(0), new Date(1))).toBe(false);
+    expect(isDeepEqual(new Date(0), {})).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  type TrpcGetKey,
+  type TrpcItem,
+  type TrpcItemKey,
+  getItemId,
+} from "./items";
+
+export type RowChange<TItem extends TrpcItem> = {
+  type: "insert" | "update" | "delete";
+  value: TItem;
+};
+
+// Structural equality of plain rows, comparing dates by their time
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((value, index) => isDeepEqual(value, b[index]))
+    );
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        isDeepEqual(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+}
+
+/**
+ * Compute the changes turning the cached rows into the fresh ones, by key,
+ * so that the rows that did not change are left untouched. The fresh rows
+ * can be diffed page by page, the deletes being known after the last one.
+ */
+export class Reconciler<TItem extends TrpcItem> {
+  // The cached rows not seen in the fresh ones yet
+  private remaining: Map<TrpcItemKey, TItem>;
+  // The fresh rows already diffed, as a row can move to a later page
+  private seen = new Set<TrpcItemKey>();
+  private isEqual: (cached: TItem, fresh: TItem) => boolean;
+  private getKey: TrpcGetKey<TItem>;
+
+  constructor(
+    cached: TItem[],
+    isEqual: (cached: TItem, fresh: TItem) => boolean = isDeepEqual,
+    getKey: TrpcGetKey<TItem> = getItemId,
+  ) {
+    this.remaining = new Map(cached.map((item) => [getKey(item), item]));
+    this.isEqual = isEqual;
+    this.getKey = getKey;
+  }
+
+  diffPage(fresh: TItem[]): RowChange<TItem>[] {
+    const changes: RowChange<TItem>[] = [];
+    for (const item of fresh) {
+      const key = this.getKey(item);
+      const cachedItem = this.remaining.get(key);
+      if (this.seen.has(key)) {
+        changes.push({ type: "update", value: item });
+      } else if (cachedItem === undefined) {
+        changes.push({ type: "insert", value: item });
+      } else if (!this.isEqual(cachedItem, item)) {
+        changes.push({ type: "update", value: item });
+      }
+      this.remaining.delete(key);
+      this.seen.add(key);
+    }
+    return changes;
+  }
+
+  /**
+   * The cached rows that are not on the server anymore, once every fresh
+   * row has been diffed.
+   */
+  deletes(): RowChange<TItem>[] {
+    return [...this.remaining.values()].map((item) => ({
+      type: "delete",
+      value: item,
+    }));
+  }
+}
+
+export function diffRows<TItem extends TrpcItem>(
+  cached: TItem[],
+  fresh: TItem[],
+  isEqual?: (cached: TItem, fresh: TItem) => boolean,
+  getKey?: TrpcGetKey<TItem>,
+): RowChange<TItem>[] {
+  const reconciler = new Reconciler(cached, isEqual, getKey);
+  return [...reconciler.diffPage(fresh), ...reconciler.deletes()];
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { RowValidator, validateSchema } from "./schema";
+import { Logger } from "./logger";
+
+const logger = new Logger({ enabled: false }, "test");
+const schema = z.object({ id: z.number(), title: z.string().default("") });
+
+describe("RowValidator", () => {
+  it("should coerce the valid rows and drop the invalid ones", () => {
+    const onInvalidRow = vi.fn();
+    const validator = new RowValidator(schema, logger, { onInvalidRow });
+
+    const rows = validator.validateAll([{ id: 1 }, { id: "2" }], "list");
+
+    expect(rows).toEqual([{ id: 1, title: "" }]);
+    expect(onInvalidRow).toHaveBeenCalledWith({
+      source: "list",
+      value: { id: "2" },
+      issues: [expect.objectContaining({ path: ["id"] })],
+    });
+    expect(validator.quarantine).toEqual([]);
+  });
+
+  it("should quarantine the invalid rows when configured so", () => {
+    const validator = new RowValidator(schema, logger, {
+      policy: "quarantine",
+    });
+
+    expect(validator.validate({ title: "A" }, "event")).toBeNull();
+    expect(validator.quarantine).toMatchObject([
+      { source: "event", value: { title: "A" } },
+    ]);
+  });
+
+  it("should reject asynchronous schemas", () => {
+    const asyncSchema = schema.refine(async () => true);
+
+    expect(() => validateSchema(asyncSchema, { id: 1 })).toThrow(
+      "Schema validation must be synchronous",
+    );
+  });
+});
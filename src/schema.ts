@@ -0,0 +1,124 @@
+import type { TrpcItem } from "./items";
+import type { Logger } from "./logger";
+
+// The Standard Schema interface (https://standardschema.dev), implemented
+// by zod, valibot or arktype, copied as recommended by the specification
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Where an incoming row comes from: the `list` query, the cache of the
+ * storage, a `listen` event or the response of a mutation.
+ */
+export type TrpcRowSource = "list" | "cache" | "event" | "mutation";
+
+export interface TrpcInvalidRow {
+  source: TrpcRowSource;
+  value: unknown;
+  issues: ReadonlyArray<StandardSchemaIssue>;
+}
+
+/**
+ * What to do with the rows failing the schema:
+ * - drop: discard them
+ * - quarantine: discard them from the collection, but keep them aside to
+ *   inspect them with `utils.getQuarantine()`
+ */
+export type InvalidRowPolicy = "drop" | "quarantine";
+
+/**
+ * Validate a value with a Standard Schema, which has to be synchronous as
+ * the rows of the events are written synchronously.
+ */
+export function validateSchema<TOutput>(
+  schema: StandardSchemaV1<unknown, TOutput>,
+  value: unknown,
+): StandardSchemaResult<TOutput> {
+  const result = schema["~standard"].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError("Schema validation must be synchronous");
+  }
+  return result;
+}
+
+export function formatIssues(issues: ReadonlyArray<StandardSchemaIssue>) {
+  return issues
+    .map(({ message, path }) => {
+      const keys = path?.map((key) =>
+        typeof key === "object" ? key.key : key,
+      );
+      return keys?.length ? `${keys.join(".")}: ${message}` : message;
+    })
+    .join(", ");
+}
+
+/**
+ * Validates and coerces the incoming rows of a collection, reporting the
+ * invalid ones and quarantining them when configured so.
+ */
+export class RowValidator<TItem extends TrpcItem> {
+  readonly quarantine: TrpcInvalidRow[] = [];
+  private schema: StandardSchemaV1<unknown, TItem>;
+  private policy: InvalidRowPolicy;
+  private onInvalidRow: ((row: TrpcInvalidRow) => void) | undefined;
+  private logger: Logger;
+
+  constructor(
+    schema: StandardSchemaV1<unknown, TItem>,
+    logger: Logger,
+    opts: {
+      policy?: InvalidRowPolicy;
+      onInvalidRow?: (row: TrpcInvalidRow) => void;
+    } = {},
+  ) {
+    this.schema = schema;
+    this.logger = logger;
+    this.policy = opts.policy ?? "drop";
+    this.onInvalidRow = opts.onInvalidRow;
+  }
+
+  /**
+   * @returns The coerced row, or `null` when it is invalid.
+   */
+  validate(value: unknown, source: TrpcRowSource): TItem | null {
+    const result = validateSchema(this.schema, value);
+    if (!result.issues) return result.value;
+
+    const row = { source, value, issues: result.issues };
+    this.logger.error(
+      `Invalid row from ${source}:`,
+      formatIssues(result.issues),
+      value,
+    );
+    if (this.policy === "quarantine") this.quarantine.push(row);
+    this.onInvalidRow?.(row);
+    return null;
+  }
+
+  // The coerced rows, without the invalid ones
+  validateAll(values: unknown[], source: TrpcRowSource): TItem[] {
+    const rows: TItem[] = [];
+    for (const value of values) {
+      const row = this.validate(value, source);
+      if (row) rows.push(row);
+    }
+    return rows;
+  }
+}
@@ -1,2 +1,16 @@
-export { TrpcSync } from "./events";
-export { type TrpcSyncEvent } from "./events";
+export {
+  TrpcSync,
+  TrpcConflictError,
+  TrpcValidationError,
+  formatConflictError,
+} from "./events";
+export { type StandardSchemaV1, type StandardSchemaIssue } from "./schema";
+export { TrpcSyncHub, type TrpcHubEvent } from "./hub";
+export {
+  type TrpcSyncEvent,
+  type TrpcDataEvent,
+  type TrpcControlEvent,
+  type TrpcResetEvent,
+  type TrpcInvalidateEvent,
+  type TrpcUnsavedEvent,
+} from "./events";
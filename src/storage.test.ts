@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { IDBDatabase, IDBFactory } from "fake-indexeddb";
+import {
+  IndexedDBStorageAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  loadFromStorage,
+  saveToStorage,
+  clearStorage,
+  getScopedName,
+  jsonSerializer,
+  loadLastEventId,
+  saveLastEventId,
+} from "./storage";
+
+// Mock localStorage
+const mockLocalStorage = {
+  getItem: vi.fn(),
+  setItem: vi.fn(),
+  removeItem: vi.fn(),
+  key: vi.fn(),
+  length: 0,
+};
+
+global.localStorage = mockLocalStorage as any;
+
+describe("LocalStorageAdapter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should read and write localStorage", async () => {
+    const storage = new LocalStorageAdapter();
+
+    mockLocalStorage.getItem.mockReturnValue("value");
+    expect(await storage.get("key")).toBe("value");
+    expect(mockLocalStorage.getItem).toHaveBeenCalledWith("key");
+
+    await storage.set("key", "value");
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith("key", "value");
+
+    await storage.delete("key");
+    expect(mockLocalStorage.removeItem).toHaveBeenCalledWith("key");
+  });
+
+  it("should list the keys", async () => {
+    const storage = new LocalStorageAdapter({
+      ...mockLocalStorage,
+      length: 2,
+      key: (index: number) => ["a", "b"][index] ?? null,
+    } as any);
+
+    expect(await storage.keys()).toEqual(["a", "b"]);
+  });
+});
+
+describe("IndexedDBStorageAdapter", () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    vi.stubGlobal("indexedDB", factory);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should read and write IndexedDB", async () => {
+    const storage = new IndexedDBStorageAdapter("app");
+
+    expect(await storage.get("key")).toBeNull();
+    await storage.set("key", "value");
+    await storage.set("other", "value");
+    expect(await storage.get("key")).toBe("value");
+    expect(await storage.keys()).toEqual(["key", "other"]);
+
+    await storage.delete("key");
+    expect(await storage.keys()).toEqual(["other"]);
+  });
+
+  it("should create the store missing from an existing database", async () => {
+    const cache = new IndexedDBStorageAdapter("app", "cache");
+    await cache.set("key", "cached");
+    const outbox = new IndexedDBStorageAdapter("app", "outbox");
+
+    await outbox.set("key", "queued");
+    expect(await outbox.get("key")).toBe("queued");
+    // The first adapter reopens the upgraded database
+    expect(await cache.get("key")).toBe("cached");
+  });
+
+  it("should open the database again after a failure", async () => {
+    const storage = new IndexedDBStorageAdapter("app");
+    vi.spyOn(factory, "open").mockImplementationOnce(() => {
+      throw new DOMException("Blocked", "UnknownError");
+    });
+
+    await expect(storage.get("key")).rejects.toThrow("Blocked");
+    await storage.set("key", "value");
+    expect(await storage.get("key")).toBe("value");
+  });
+
+  it("should resolve the writes once committed", async () => {
+    const storage = new IndexedDBStorageAdapter("app");
+    const completed: boolean[] = [];
+    const transaction = IDBDatabase.prototype.transaction;
+    vi.spyOn(IDBDatabase.prototype, "transaction").mockImplementation(function (
+      this: IDBDatabase,
+      ...args
+    ) {
+      const created = transaction.apply(this, args);
+      const index = completed.push(false) - 1;
+      created.addEventListener("complete", () => (completed[index] = true));
+      return created;
+    });
+
+    await storage.set("key", "value");
+    expect(completed).not.toContain(false);
+  });
+});
+
+describe("Storage persistence", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it("should save and load data", async () => {
+    const data = { items: [{ id: 1, title: "Test" }], timestamp: Date.now() };
+    await saveToStorage(storage, "test-collection", data, jsonSerializer);
+
+    expect(await storage.get("test-collection")).toBe(JSON.stringify(data));
+    expect(
+      await loadFromStorage(storage, "test-collection", jsonSerializer),
+    ).toEqual(data);
+  });
+
+  it("should handle empty data in the storage", async () => {
+    const data = await loadFromStorage(
+      storage,
+      "test-collection",
+      jsonSerializer,
+    );
+    expect(data).toBeNull();
+  });
+
+  it("should handle custom serializer", async () => {
+    const customSerializer = {
+      parse: vi.fn((text) => JSON.parse(text)),
+      stringify: vi.fn((value) => JSON.stringify(value)),
+    };
+
+    await saveToStorage(storage, "test-collection", [1], customSerializer);
+    expect(customSerializer.stringify).toHaveBeenCalled();
+
+    const data = await loadFromStorage(
+      storage,
+      "test-collection",
+      customSerializer,
+    );
+    expect(data).toEqual([1]);
+    expect(customSerializer.parse).toHaveBeenCalled();
+  });
+
+  it("should save and load the last event id", async () => {
+    await saveLastEventId(storage, "test-collection", 42);
+    expect(
+      await storage.get("trpc-db-collection-test-collection-last-event-id"),
+    ).toBe("42");
+    expect(await loadLastEventId(storage, "test-collection")).toBe(42);
+
+    await saveLastEventId(storage, "test-collection", null);
+    expect(await loadLastEventId(storage, "test-collection")).toBeNull();
+  });
+
+  it("should clear the data of a collection", async () => {
+    await storage.set("trpc-db-collection-test-collection", "[]");
+    await storage.set("trpc-db-collection-test-collection:row:1", "{}");
+    await storage.set("trpc-db-collection-test-collection-last-event-id", "1");
+    await storage.set("trpc-db-collection-other", "[]");
+
+    await clearStorage(storage, "test-collection");
+    expect(await storage.keys()).toEqual(["trpc-db-collection-other"]);
+  });
+
+  it("should derive the stored name from the input", () => {
+    expect(getScopedName("todos")).toBe("todos");
+    expect(getScopedName("todos", { b: 1, a: { d: 2, c: 3 } })).toBe(
+      getScopedName("todos", { a: { c: 3, d: 2 }, b: 1 }),
+    );
+    expect(getScopedName("todos", { projectId: 1 })).not.toBe(
+      getScopedName("todos", { projectId: 2 }),
+    );
+  });
+});
@@ -0,0 +1,277 @@
+export interface Serializer {
+  parse: <T>(text: string) => T;
+  stringify: <T>(value: T) => string;
+}
+
+// Default JSON serializer
+export const jsonSerializer: Serializer = {
+  parse: <T>(text: string) => JSON.parse(text) as T,
+  stringify: <T>(value: T) => JSON.stringify(value),
+};
+
+/**
+ * An asynchronous key-value store used to persist the collections.
+ * Values are serialized by the collection before being stored.
+ */
+export interface StorageAdapter {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+// Storage adapter backed by window.localStorage
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: Storage | undefined;
+
+  constructor(storage?: Storage) {
+    this.storage = storage;
+  }
+
+  // Resolved lazily so that the adapter can be created during SSR
+  private get localStorage(): Storage {
+    return this.storage ?? globalThis.localStorage;
+  }
+
+  async get(key: string) {
+    return this.localStorage.getItem(key);
+  }
+
+  async set(key: string, value: string) {
+    this.localStorage.setItem(key, value);
+  }
+
+  async delete(key: string) {
+    this.localStorage.removeItem(key);
+  }
+
+  async keys() {
+    const keys: string[] = [];
+    for (let index = 0; index < this.localStorage.length; index++) {
+      const key = this.localStorage.key(index);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+// Storage adapter backed by IndexedDB, without the size limit of
+// localStorage and without blocking the main thread
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = "trpc-db-collection", storeName = "cache") {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  // A failed open is retried on the next call
+  private open(): Promise<IDBDatabase> {
+    this.database ??= this.openDatabase().catch((error) => {
+      this.database = null;
+      throw error;
+    });
+    return this.database;
+  }
+
+  // Open the database, upgrading it when the store is missing, like when
+  // the database was created by an adapter with another store
+  private async openDatabase(version?: number): Promise<IDBDatabase> {
+    const database = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!database.objectStoreNames.contains(this.storeName)) {
+      database.close();
+      return this.openDatabase(database.version + 1);
+    }
+    // Let the other adapters upgrade the database, reopening it afterwards
+    database.onversionchange = () => {
+      database.close();
+      this.database = null;
+    };
+    return database;
+  }
+
+  // Resolves once the transaction is committed
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(request.error ?? transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async get(key: string) {
+    const value = await this.request<string | undefined>("readonly", (store) =>
+      store.get(key),
+    );
+    return value ?? null;
+  }
+
+  async set(key: string, value: string) {
+    await this.request("readwrite", (store) => store.put(value, key));
+  }
+
+  async delete(key: string) {
+    await this.request("readwrite", (store) => store.delete(key));
+  }
+
+  async keys() {
+    const keys = await this.request("readonly", (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+}
+
+// Storage adapter keeping the values in memory, mostly useful for tests
+export class MemoryStorageAdapter implements StorageAdapter {
+  private values = new Map<string, string>();
+
+  async get(key: string) {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.values.delete(key);
+  }
+
+  async keys() {
+    return [...this.values.keys()];
+  }
+}
+
+export function getStorageKey(collectionName: string): string {
+  return `trpc-db-collection-${collectionName}`;
+}
+
+/**
+ * The name a collection is stored under, derived from its input when it is
+ * scoped by one. The keys of the input are sorted so that the same input
+ * always gives the same name.
+ */
+export function getScopedName(collectionName: string, input?: unknown): string {
+  if (input === undefined) return collectionName;
+  const scope = JSON.stringify(input, (_, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : value,
+  );
+  return `${collectionName}(${scope})`;
+}
+
+// Each cached row is stored under this prefix followed by its key
+export function getRowKeyPrefix(collectionName: string): string {
+  return `${getStorageKey(collectionName)}:row:`;
+}
+
+export function getLastEventIdKey(collectionName: string): string {
+  return `${getStorageKey(collectionName)}-last-event-id`;
+}
+
+export function getOutboxKey(collectionName: string): string {
+  return `${getStorageKey(collectionName)}-outbox`;
+}
+
+export async function loadFromStorage<T>(
+  storage: StorageAdapter,
+  key: string,
+  serializer: Serializer,
+): Promise<T | null> {
+  try {
+    const data = await storage.get(key);
+    return data ? (serializer.parse(data) as T) : null;
+  } catch (error) {
+    console.error(`Failed to load ${key} from storage:`, error);
+    return null;
+  }
+}
+
+export async function saveToStorage<T>(
+  storage: StorageAdapter,
+  key: string,
+  data: T,
+  serializer: Serializer,
+): Promise<void> {
+  try {
+    await storage.set(key, serializer.stringify(data));
+  } catch (error) {
+    console.error(`Failed to save ${key} to storage:`, error);
+  }
+}
+
+export async function clearStorage(
+  storage: StorageAdapter,
+  collectionName: string,
+): Promise<void> {
+  try {
+    const rowKeyPrefix = getRowKeyPrefix(collectionName);
+    const rowKeys = (await storage.keys()).filter((key) =>
+      key.startsWith(rowKeyPrefix),
+    );
+    await Promise.all(rowKeys.map((key) => storage.delete(key)));
+    await storage.delete(getStorageKey(collectionName));
+    await storage.delete(getLastEventIdKey(collectionName));
+    await storage.delete(getOutboxKey(collectionName));
+  } catch (error) {
+    console.error(`Failed to clear storage for ${collectionName}:`, error);
+  }
+}
+
+export async function loadLastEventId(
+  storage: StorageAdapter,
+  collectionName: string,
+): Promise<number | null> {
+  try {
+    const data = await storage.get(getLastEventIdKey(collectionName));
+    const eventId = data ? Number(data) : NaN;
+    return Number.isFinite(eventId) ? eventId : null;
+  } catch (error) {
+    console.error(
+      `Failed to load last event id from storage for ${collectionName}:`,
+      error,
+    );
+    return null;
+  }
+}
+
+export async function saveLastEventId(
+  storage: StorageAdapter,
+  collectionName: string,
+  eventId: number | null,
+): Promise<void> {
+  try {
+    const key = getLastEventIdKey(collectionName);
+    if (eventId === null) {
+      await storage.delete(key);
+    } else {
+      await storage.set(key, eventId.toString());
+    }
+  } catch (error) {
+    console.error(
+      `Failed to save last event id to storage for ${collectionName}:`,
+      error,
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+import { SyncHub } from "./sync-hub";
+
+function createHub() {
+  const handlers: any[] = [];
+  const subscribe = vi.fn((_, opts) => {
+    handlers.push(opts);
+    return { unsubscribe: vi.fn() };
+  });
+  const hub = new SyncHub({
+    subscribe,
+    reconnect: { initialDelay: 100, jitter: 0 },
+  });
+  return { hub, subscribe, handlers };
+}
+
+describe("SyncHub", () => {
+  it("should open a single subscription and dispatch by collection", async () => {
+    const { hub, subscribe, handlers } = createHub();
+    const onTodo = vi.fn();
+    const onProject = vi.fn();
+
+    hub.listen("todos").subscribe({ lastEventId: 4 }, { onData: onTodo });
+    hub
+      .listen("projects")
+      .subscribe({ lastEventId: null }, { onData: onProject });
+    await Promise.resolve();
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(subscribe).toHaveBeenCalledWith(
+      { lastEventIds: { todos: 4, projects: null } },
+      expect.anything(),
+    );
+
+    const event = { id: 5, userId: "user1", action: "insert", data: { id: 1 } };
+    handlers[0].onData({
+      id: "todos:5",
+      data: { collection: "todos", event },
+    });
+    expect(onTodo).toHaveBeenCalledWith({ id: "5", data: event });
+    expect(onProject).not.toHaveBeenCalled();
+  });
+
+  it("should reconnect from the last event of every collection", async () => {
+    vi.useFakeTimers();
+    try {
+      const { hub, subscribe, handlers } = createHub();
+      const onError = vi.fn();
+      hub
+        .listen("todos")
+        .subscribe({ lastEventId: null }, { onData: vi.fn(), onError });
+      hub
+        .listen("projects")
+        .subscribe({ lastEventId: 2 }, { onData: vi.fn(), onError });
+      await vi.advanceTimersByTimeAsync(0);
+
+      handlers[0].onStarted();
+      handlers[0].onData({
+        id: "todos:3",
+        data: { collection: "todos", event: { id: 3, action: "reset" } },
+      });
+      handlers[0].onError(new Error("Connection lost"));
+      expect(hub.getConnectionState()).toBe("reconnecting");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(subscribe).toHaveBeenCalledTimes(2);
+      expect(subscribe).toHaveBeenLastCalledWith(
+        { lastEventIds: { todos: 3, projects: 2 } },
+        expect.anything(),
+      );
+      // The collections don't schedule their own reconnection
+      expect(onError).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should only reopen the subscription to replay missed events", async () => {
+    const { hub, subscribe, handlers } = createHub();
+    const todos = hub
+      .listen("todos")
+      .subscribe({ lastEventId: null }, { onData: vi.fn() });
+    hub.listen("projects").subscribe({ lastEventId: 2 }, { onData: vi.fn() });
+    await Promise.resolve();
+    handlers[0].onData({
+      id: "todos:3",
+      data: { collection: "todos", event: { id: 3, action: "reset" } },
+    });
+
+    // Resubscribing from the last event, or joining without one
+    todos.unsubscribe();
+    hub.listen("todos").subscribe({ lastEventId: 3 }, { onData: vi.fn() });
+    hub.listen("users").subscribe({ lastEventId: null }, { onData: vi.fn() });
+    await Promise.resolve();
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    hub.listen("tags").subscribe({ lastEventId: 7 }, { onData: vi.fn() });
+    await Promise.resolve();
+    expect(subscribe).toHaveBeenCalledTimes(2);
+    expect(subscribe).toHaveBeenLastCalledWith(
+      { lastEventIds: { todos: 3, projects: 2, users: null, tags: 7 } },
+      expect.anything(),
+    );
+  });
+
+  it("should forward its connection state to the collections", async () => {
+    vi.useFakeTimers();
+    try {
+      const { hub, handlers } = createHub();
+      const onStarted = vi.fn();
+      const onConnectionState = vi.fn();
+      hub
+        .listen("todos")
+        .subscribe(
+          { lastEventId: null },
+          { onData: vi.fn(), onStarted, onConnectionState },
+        );
+      await vi.advanceTimersByTimeAsync(0);
+
+      handlers[0].onStarted();
+      expect(onStarted).toHaveBeenCalledTimes(1);
+      handlers[0].onError(new Error("Connection lost"));
+      expect(onConnectionState).toHaveBeenCalledWith("reconnecting");
+
+      await vi.advanceTimersByTimeAsync(100);
+      handlers[1].onStarted();
+      expect(onStarted).toHaveBeenCalledTimes(2);
+
+      // Joining while the hub reconnects
+      handlers[1].onError(new Error("Connection lost"));
+      const onUsersState = vi.fn();
+      hub
+        .listen("users")
+        .subscribe(
+          { lastEventId: null },
+          { onData: vi.fn(), onConnectionState: onUsersState },
+        );
+      expect(onUsersState).toHaveBeenCalledWith("reconnecting");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,235 @@
+import { Store } from "@tanstack/store";
+import type { TrpcItem } from "./items";
+import type { TrpcSyncEvent } from "./events";
+import type { TrpcHubEvent } from "./hub";
+import { type LoggerConfig, Logger } from "./logger";
+import {
+  type ConnectionState,
+  type ReconnectConfig,
+  defaultReconnectConfig,
+  getReconnectDelay,
+} from "./connection";
+
+interface SubscriptionHandlers<TData> {
+  onData: (data: { id: string; data: TData }) => void;
+  onStarted?: () => void;
+  onError?: (error: Error) => void;
+  onConnectionState?: (state: ConnectionState) => void;
+}
+
+export interface SyncHubConfig {
+  /**
+   * The `subscribe` method of the `listen` procedure merging the
+   * collections with `TrpcSyncHub` on the server.
+   */
+  subscribe: (
+    input: { lastEventIds: Record<string, number | null> },
+    opts: SubscriptionHandlers<TrpcHubEvent<any>>,
+  ) => { unsubscribe: () => void };
+
+  /**
+   * The reconnection strategy used when the subscription fails, or `false`
+   * to stay disconnected.
+   * @default defaultReconnectConfig
+   */
+  reconnect?: Partial<ReconnectConfig> | false;
+
+  /**
+   * The logger configuration to use for logging.
+   */
+  loggerConfig?: LoggerConfig;
+}
+
+interface HubCollection {
+  lastEventId: number | null;
+  handlers: SubscriptionHandlers<TrpcSyncEvent<any>>;
+}
+
+/**
+ * Shares a single subscription between many collections, dispatching the
+ * events to the collections by name. The hub reconnects with its own
+ * backoff, resuming every collection from its last event, and forwards its
+ * connection state to the collections.
+ */
+export class SyncHub {
+  private config: SyncHubConfig;
+  private logger: Logger;
+  private reconnectConfig: ReconnectConfig | null;
+  private collections = new Map<string, HubCollection>();
+  private subscription: { unsubscribe: () => void } | null = null;
+  // The last event received by each collection since the subscription was
+  // opened, or the one it was opened from
+  private streamEventIds = new Map<string, number | null>();
+  private isOpening = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private connectionState = new Store<ConnectionState>("connecting");
+
+  constructor(config: SyncHubConfig) {
+    this.config = config;
+    this.logger = new Logger(config.loggerConfig, "hub");
+    this.reconnectConfig =
+      config.reconnect === false
+        ? null
+        : { ...defaultReconnectConfig, ...config.reconnect };
+  }
+
+  /**
+   * The `listen` procedure of a collection, to pass in its `trpcRouter`.
+   * @param name The name of the collection in the `TrpcSyncHub`.
+   */
+  listen<TItem extends TrpcItem>(name: string) {
+    return {
+      subscribe: (
+        input: { lastEventId: number | null },
+        handlers: SubscriptionHandlers<TrpcSyncEvent<TItem>>,
+      ) => {
+        const collection = { lastEventId: input.lastEventId, handlers };
+        this.collections.set(name, collection);
+        // The server streams the events of every collection: the
+        // subscription is only reopened to replay the missed ones
+        const { lastEventId } = input;
+        const isMissingEvents =
+          lastEventId !== null && this.streamEventIds.get(name) !== lastEventId;
+        if (
+          this.subscription
+            ? isMissingEvents
+            : this.reconnectTimer === undefined
+        ) {
+          this.open();
+        }
+
+        this.notify(handlers);
+
+        return {
+          unsubscribe: () => {
+            if (this.collections.get(name) !== collection) return;
+            this.collections.delete(name);
+            if (this.collections.size === 0) this.close();
+          },
+        };
+      },
+    };
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connectionState.state;
+  }
+
+  subscribeConnectionState(listener: (state: ConnectionState) => void) {
+    return this.connectionState.subscribe(() =>
+      listener(this.connectionState.state),
+    );
+  }
+
+  // Open the subscription once the collections subscribing together are
+  // registered, resubscribing with their last event ids
+  private open() {
+    if (this.isOpening) return;
+    this.isOpening = true;
+    queueMicrotask(() => {
+      this.isOpening = false;
+      if (this.collections.size === 0) return;
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+      if (this.subscription) {
+        // The collections without a last event may miss some meanwhile,
+        // catching up once the subscription is live again
+        this.subscription.unsubscribe();
+        this.setState("reconnecting");
+      }
+
+      const lastEventIds = Object.fromEntries(
+        [...this.collections].map(([name, { lastEventId }]) => [
+          name,
+          lastEventId,
+        ]),
+      );
+      this.streamEventIds = new Map(Object.entries(lastEventIds));
+      this.subscription = this.config.subscribe(
+        { lastEventIds },
+        {
+          onStarted: () => this.setLive(),
+          onData: (data) => {
+            this.setLive();
+            // Handle both array and object formats, like the collections
+            if (Array.isArray(data)) {
+              data = { id: data[0], data: data[1] };
+            }
+            this.dispatch(data.data);
+          },
+          onError: (error) => {
+            this.logger.error("Sync error:", error);
+            this.subscription?.unsubscribe();
+            this.subscription = null;
+            this.scheduleReconnect();
+          },
+        },
+      );
+    });
+  }
+
+  private dispatch({ collection: name, event }: TrpcHubEvent<any>) {
+    this.streamEventIds.set(name, event.id);
+    const collection = this.collections.get(name);
+    if (!collection) {
+      this.logger.debug("Skipping event of unknown collection", name);
+      return;
+    }
+    collection.lastEventId = event.id;
+    collection.handlers.onData({ id: String(event.id), data: event });
+  }
+
+  private setLive() {
+    this.reconnectAttempt = 0;
+    if (this.connectionState.state === "live") return;
+    this.setState("live");
+    this.logger.info("Subscription is live");
+  }
+
+  private setState(state: ConnectionState) {
+    this.connectionState.setState(() => state);
+    for (const { handlers } of this.collections.values()) {
+      this.notify(handlers);
+    }
+  }
+
+  // Forward the state to a collection, except while connecting: the
+  // collections start in that state
+  private notify(handlers: SubscriptionHandlers<TrpcSyncEvent<any>>) {
+    const { state } = this.connectionState;
+    if (state === "live") handlers.onStarted?.();
+    else if (state !== "connecting") handlers.onConnectionState?.(state);
+  }
+
+  private scheduleReconnect() {
+    const config = this.reconnectConfig;
+    if (!config || this.reconnectAttempt >= config.maxAttempts) {
+      this.setState("offline");
+      this.logger.error("Subscription is offline");
+      return;
+    }
+
+    const delay = getReconnectDelay(this.reconnectAttempt, config);
+    this.reconnectAttempt++;
+    this.setState("reconnecting");
+    this.logger.info(
+      `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`,
+    );
+
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open();
+    }, delay);
+  }
+
+  private close() {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.streamEventIds.clear();
+    this.connectionState.setState(() => "connecting");
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TabCoordinator } from "./tabs";
+
+// Exclusive locks granted in the order they are requested
+function createLockManager() {
+  const held = new Set<string>();
+  const waiting = new Map<string, Array<() => void>>();
+
+  const release = (name: string) => {
+    const next = waiting.get(name)?.shift();
+    if (next) next();
+    else held.delete(name);
+  };
+
+  return {
+    request: async (
+      name: string,
+      options: { ifAvailable?: boolean },
+      callback: (lock: { name: string } | null) => unknown,
+    ) => {
+      if (held.has(name)) {
+        if (options.ifAvailable) return callback(null);
+        await new Promise<void>((resolve) =>
+          waiting.set(name, [...(waiting.get(name) ?? []), resolve]),
+        );
+      }
+      held.add(name);
+      try {
+        return await callback({ name });
+      } finally {
+        release(name);
+      }
+    },
+  };
+}
+
+describe("TabCoordinator", () => {
+  beforeEach(() => {
+    vi.stubGlobal("navigator", { locks: createLockManager() });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createTab() {
+    const onMessage = vi.fn();
+    const onLeader = vi.fn();
+    const tab = new TabCoordinator("todos", { onMessage, onLeader });
+    return { tab, onMessage, onLeader };
+  }
+
+  it("should elect a single leader and hand off when it stops", async () => {
+    const first = createTab();
+    const second = createTab();
+
+    expect(await first.tab.elect()).toBe(true);
+    expect(await second.tab.elect()).toBe(false);
+
+    first.tab.stop();
+    await vi.waitFor(() => expect(second.onLeader).toHaveBeenCalled());
+    expect(second.tab.isLeader).toBe(true);
+    second.tab.stop();
+  });
+
+  it("should relay the messages to the other tabs", async () => {
+    const first = createTab();
+    const second = createTab();
+
+    first.tab.post({ type: "hello" });
+    await vi.waitFor(() =>
+      expect(second.onMessage).toHaveBeenCalledWith({ type: "hello" }),
+    );
+    expect(first.onMessage).not.toHaveBeenCalled();
+
+    first.tab.stop();
+    second.tab.stop();
+  });
+});
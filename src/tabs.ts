@@ -0,0 +1,111 @@
+import type { TrpcItem, TrpcItemKey } from "./items";
+import type { TrpcSyncEvent } from "./events";
+import type { ConnectionState } from "./connection";
+import type { PendingMutation } from "./outbox";
+import { getStorageKey } from "./storage";
+
+export type TabMessage<TItem extends TrpcItem> =
+  // A sync event received by the leader
+  | { type: "event"; event: TrpcSyncEvent<TItem> }
+  // The state of the subscription of the leader
+  | { type: "state"; state: ConnectionState }
+  // A new tab asking for the state of the leader
+  | { type: "hello" }
+  // Optimistic mutations made in a tab, rolled back if they fail
+  | { type: "mutations"; mutations: PendingMutation<TItem>[] }
+  | { type: "rollback"; keys: TrpcItemKey[] }
+  // A temporary id swapped for the one assigned by the server
+  | {
+      type: "remap";
+      fields: string[];
+      tempKey: TrpcItemKey;
+      key: TrpcItemKey;
+    };
+
+// Both are needed to elect a leader and relay its events
+export function isCrossTabSupported(): boolean {
+  return (
+    typeof BroadcastChannel !== "undefined" &&
+    typeof navigator !== "undefined" &&
+    !!navigator.locks
+  );
+}
+
+/**
+ * Elects a leader among the tabs of a collection with a Web Lock, and
+ * relays messages between them over a `BroadcastChannel`.
+ *
+ * The lock is held until the leader tab is closed or stops syncing, at
+ * which point the next tab waiting for it becomes the leader.
+ */
+export class TabCoordinator<TItem extends TrpcItem> {
+  isLeader = false;
+  private name: string;
+  private channel: BroadcastChannel;
+  private onLeader: () => void;
+  private release: (() => void) | undefined;
+  private abort = new AbortController();
+
+  constructor(
+    collectionName: string,
+    handlers: {
+      onMessage: (message: TabMessage<TItem>) => void;
+      onLeader: () => void;
+    },
+  ) {
+    this.name = `${getStorageKey(collectionName)}-tabs`;
+    this.onLeader = handlers.onLeader;
+    this.channel = new BroadcastChannel(this.name);
+    this.channel.onmessage = (message: MessageEvent<TabMessage<TItem>>) =>
+      handlers.onMessage(message.data);
+  }
+
+  /**
+   * Try to become the leader right away, otherwise wait for the leader to
+   * go away and call `onLeader` then.
+   * @returns Whether this tab is the leader.
+   */
+  async elect(): Promise<boolean> {
+    if (await this.acquire(true)) return true;
+
+    this.acquire(false).then((isLeader) => {
+      if (isLeader) this.onLeader();
+    });
+    return false;
+  }
+
+  private acquire(ifAvailable: boolean): Promise<boolean> {
+    return new Promise((resolve) => {
+      navigator.locks
+        .request(
+          this.name,
+          // Waiting requests are aborted when the sync stops
+          ifAvailable ? { ifAvailable } : { signal: this.abort.signal },
+          (lock) => {
+            if (!lock || this.abort.signal.aborted) {
+              resolve(false);
+              return;
+            }
+            this.isLeader = true;
+            resolve(true);
+            return new Promise<void>((release) => {
+              this.release = release;
+            });
+          },
+        )
+        .catch(() => resolve(false));
+    });
+  }
+
+  post(message: TabMessage<TItem>) {
+    if (this.abort.signal.aborted) return;
+    this.channel.postMessage(message);
+  }
+
+  stop() {
+    this.abort.abort();
+    this.release?.();
+    this.isLeader = false;
+    this.channel.close();
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from "vitest";
+import { KeyRemapper, defaultTempIdConfig, replaceKey } from "./temp-ids";
+
+describe("defaultTempIdConfig", () => {
+  it("should generate decreasing negative ids", () => {
+    const first = defaultTempIdConfig.generate();
+    const second = defaultTempIdConfig.generate();
+    expect(first).toBeLessThan(0);
+    expect(second).toBeLessThan(first);
+  });
+});
+
+describe("KeyRemapper", () => {
+  it("should resolve the keys of the inserts once settled", async () => {
+    const remapper = new KeyRemapper<number>();
+    const listener = vi.fn();
+    remapper.subscribe(listener);
+    remapper.begin(-1);
+    remapper.begin(-2);
+
+    const resolved = remapper.resolveKey(-1);
+    remapper.settle(-1, 42);
+    remapper.settle(-2);
+
+    await expect(resolved).resolves.toBe(42);
+    await expect(remapper.resolveKey(-1)).resolves.toBe(42);
+    await expect(remapper.resolveKey(-2)).resolves.toBe(-2);
+    await expect(remapper.resolveKey(7)).resolves.toBe(7);
+    expect(listener).toHaveBeenCalledExactlyOnceWith(-1, 42);
+  });
+
+  it("should only keep the last swapped keys once no insert is pending", async () => {
+    const remapper = new KeyRemapper<number>(1);
+    remapper.begin(-1);
+    remapper.begin(-2);
+    remapper.settle(-1, 1);
+    remapper.settle(-2, 2);
+    await expect(remapper.resolveKey(-1)).resolves.toBe(-1);
+    await expect(remapper.resolveKey(-2)).resolves.toBe(2);
+
+    // Kept while other inserts are pending
+    remapper.begin(-3);
+    remapper.begin(-4);
+    remapper.settle(-3, 3);
+    await expect(remapper.resolveKey(-2)).resolves.toBe(2);
+    remapper.settle(-4, 4);
+    await expect(remapper.resolveKey(-3)).resolves.toBe(-3);
+  });
+});
+
+describe("replaceKey", () => {
+  it("should only copy the values holding the temporary id", () => {
+    const todo = { id: 1, projectId: -1 };
+    expect(replaceKey(todo, ["projectId"], -1, 42)).toEqual({
+      id: 1,
+      projectId: 42,
+    });
+    expect(replaceKey(todo, ["id"], -1, 42)).toBe(todo);
+  });
+});
@@ -0,0 +1,119 @@
+import type { TrpcItemKey } from "./items";
+
+export interface TempIdConfig<TKey extends TrpcItemKey> {
+  /**
+   * Generate the temporary id of an optimistic item.
+   * @default Negative numbers, decreasing from the ones of the previous
+   * sessions so that they don't collide with the ids left in the outbox
+   */
+  generate: () => TKey;
+}
+
+let lastTempId = 0;
+
+export const defaultTempIdConfig: TempIdConfig<number> = {
+  generate: () => {
+    lastTempId = Math.min(lastTempId - 1, -Date.now());
+    return lastTempId;
+  },
+};
+
+/**
+ * The ids assigned by the server to the temporary ids of a collection,
+ * given to the collections referencing its items.
+ */
+export interface TrpcKeySource {
+  /**
+   * Get the id assigned by the server to a temporary id, waiting for its
+   * insert when it is being sent. Other ids are returned as they are.
+   */
+  resolveKey(key: TrpcItemKey): Promise<TrpcItemKey>;
+
+  /**
+   * Listen to the temporary ids swapped for the ones of the server.
+   * @returns A function to stop listening.
+   */
+  subscribeKeyRemap(
+    listener: (tempKey: TrpcItemKey, key: TrpcItemKey) => void,
+  ): () => void;
+}
+
+/**
+ * Tracks the inserts being sent, to swap the temporary ids of their items
+ * for the ones assigned by the server once they are confirmed.
+ *
+ * The swapped ids are only kept for the mutations made before the swap and
+ * sent after it: once no insert is pending anymore, only the last ones are
+ * kept, so memory stays bounded however many items are inserted.
+ */
+export class KeyRemapper<TKey extends TrpcItemKey> {
+  private pending = new Map<
+    TKey,
+    { promise: Promise<TKey>; resolve: (key: TKey) => void }
+  >();
+  // The swapped ids, in the order they were swapped
+  private remapped = new Map<TKey, TKey>();
+  private listeners = new Set<(tempKey: TKey, key: TKey) => void>();
+  private windowSize: number;
+
+  constructor(windowSize = 100) {
+    this.windowSize = windowSize;
+  }
+
+  // An insert of the key is being sent
+  begin(key: TKey) {
+    if (this.pending.has(key)) return;
+    let resolve!: (key: TKey) => void;
+    const promise = new Promise<TKey>((r) => (resolve = r));
+    this.pending.set(key, { promise, resolve });
+  }
+
+  /**
+   * The insert of the key is done, the server assigning it the given key.
+   * Without it, the insert failed and the key is kept.
+   */
+  settle(tempKey: TKey, key: TKey = tempKey) {
+    if (key !== tempKey) {
+      this.remapped.set(tempKey, key);
+      for (const listener of this.listeners) listener(tempKey, key);
+    }
+    this.pending.get(tempKey)?.resolve(key);
+    this.pending.delete(tempKey);
+
+    if (this.pending.size > 0) return;
+    for (const remappedKey of this.remapped.keys()) {
+      if (this.remapped.size <= this.windowSize) break;
+      this.remapped.delete(remappedKey);
+    }
+  }
+
+  resolveKey(key: TKey): Promise<TKey> {
+    const remapped = this.remapped.get(key);
+    if (remapped !== undefined) return Promise.resolve(remapped);
+    return this.pending.get(key)?.promise ?? Promise.resolve(key);
+  }
+
+  subscribe(listener: (tempKey: TKey, key: TKey) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// The value with the fields holding the temporary id set to the new one,
+// or the same value when none holds it
+export function replaceKey<T extends object>(
+  value: T,
+  fields: string[],
+  tempKey: TrpcItemKey,
+  key: TrpcItemKey,
+): T {
+  const record = value as Record<PropertyKey, unknown>;
+  if (!fields.some((field) => record[field] === tempKey)) return value;
+  const replaced = { ...record };
+  for (const field of fields) {
+    if (replaced[field] === tempKey) replaced[field] = key;
+  }
+  return replaced as T;
+}